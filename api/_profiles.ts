@@ -0,0 +1,41 @@
+import { SUPABASE_URL, SUPABASE_ANON_KEY } from '../constants';
+import { Profile } from '../types';
+
+/**
+ * Shared by the edge functions in this folder (the leading underscore keeps
+ * Vercel from exposing this file as a route).
+ */
+
+export const SLUG_PATTERN = /^[a-z0-9_-]+$/i;
+
+/**
+ * Reads selected columns of a profile over Supabase REST with the anon key,
+ * so the same row-level security as the public page applies. PIN-protected and
+ * disabled profiles are treated as missing (RLS hides them too; this filter
+ * just doesn't rely on it).
+ */
+export const fetchPublicProfile = async (slug: string, columns: string): Promise<Partial<Profile> | null> => {
+  const url = `${SUPABASE_URL}/rest/v1/profiles?select=${columns},visibility&profile_slug=eq.${encodeURIComponent(slug)}&visibility=in.(public,unlisted)&limit=1`;
+  const res = await fetch(url, {
+    headers: { apikey: SUPABASE_ANON_KEY, Authorization: `Bearer ${SUPABASE_ANON_KEY}` },
+  });
+  if (!res.ok) throw new Error(`Supabase responded ${res.status}`);
+  const rows = await res.json() as Partial<Profile>[];
+  return rows[0] || null;
+};
+
+/**
+ * Current slug of a profile that used to live at `slug` (see
+ * profile_slug_history), or null when the slug was never retired or the
+ * profile is PIN-protected or disabled.
+ */
+export const resolveRetiredSlug = async (slug: string): Promise<string | null> => {
+  const res = await fetch(`${SUPABASE_URL}/rest/v1/rpc/resolve_profile_slug`, {
+    method: 'POST',
+    headers: { apikey: SUPABASE_ANON_KEY, Authorization: `Bearer ${SUPABASE_ANON_KEY}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ p_slug: slug }),
+  });
+  if (!res.ok) throw new Error(`Supabase responded ${res.status}`);
+  const current = await res.json() as string | null;
+  return current && current !== slug ? current : null;
+};
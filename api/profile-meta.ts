@@ -0,0 +1,81 @@
+import { Profile } from '../types';
+import { fetchPublicProfile, resolveRetiredSlug, SLUG_PATTERN } from './_profiles';
+import { getProfileMeta, getMetaTags, SITE_NAME } from '../utils/profileMeta';
+
+/**
+ * Edge renderer for shared profile links (Vercel Edge Function)
+ *
+ * The app is a HashRouter SPA, so crawlers for WhatsApp / LinkedIn / X only ever
+ * see index.html. vercel.json rewrites /p/:slug here; we answer with a tiny page
+ * carrying the per-profile OpenGraph/Twitter tags, which immediately forwards
+ * real visitors to /#/p/:slug (keeping any ?src= marker). Retired slugs
+ * 301 to the profile's current /p/:slug.
+ */
+
+export const config = { runtime: 'edge' };
+
+const META_COLUMNS = 'full_name,job_title,company,bio,profile_slug,profile_photo_url,background_photo_url,front_side,updated_at';
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderPage = (title: string, tags: [string, string, string][], target: string) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeHtml(title)}</title>
+${tags.map(([attr, key, content]) => `<meta ${attr}="${key}" content="${escapeHtml(content)}" />`).join('\n')}
+<meta http-equiv="refresh" content="0;url=${escapeHtml(target)}" />
+<script>location.replace(${JSON.stringify(target)});</script>
+</head>
+<body style="background:#09090b"></body>
+</html>`;
+
+export default async function handler(request: Request): Promise<Response> {
+  const { searchParams } = new URL(request.url);
+  const slug = searchParams.get('slug') || '';
+
+  if (!SLUG_PATTERN.test(slug)) {
+    return Response.redirect(new URL('/', request.url).toString(), 302);
+  }
+
+  // Forward everything except our own rewrite param (e.g. ?src=nfc) to the SPA route
+  searchParams.delete('slug');
+  const query = searchParams.toString();
+  const target = `/#/p/${slug}${query ? `?${query}` : ''}`;
+
+  let profile: Partial<Profile> | null = null;
+  try {
+    profile = await fetchPublicProfile(slug, META_COLUMNS);
+    if (!profile) {
+      // Renamed profile: old printed cards get a permanent redirect to the current link
+      const current = await resolveRetiredSlug(slug);
+      if (current) {
+        return new Response(null, {
+          status: 301,
+          headers: {
+            Location: new URL(`/p/${current}${query ? `?${query}` : ''}`, request.url).toString(),
+            // The owner can take an old slug back, so don't let the redirect live forever
+            'Cache-Control': 'public, max-age=3600, s-maxage=3600',
+          },
+        });
+      }
+    }
+  } catch (err) {
+    console.error('profile-meta fetch failed:', err);
+  }
+
+  const meta = profile ? getProfileMeta(profile) : null;
+  const html = renderPage(meta ? meta.title : SITE_NAME, meta ? getMetaTags(meta) : [], target);
+
+  return new Response(html, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      // Profiles change rarely; keep previews fresh within a few minutes
+      'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=86400',
+      ...(meta?.noindex ? { 'X-Robots-Tag': 'noindex, nofollow' } : {}),
+    },
+  });
+}
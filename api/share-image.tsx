@@ -0,0 +1,94 @@
+import { ImageResponse } from '@vercel/og';
+import { Profile } from '../types';
+import { fetchPublicProfile, SLUG_PATTERN } from './_profiles';
+import { getCoverImage } from '../utils/profileMeta';
+import { PUBLIC_SITE_URL } from '../constants';
+
+/**
+ * 1200x630 social share card for a profile (Vercel Edge Function)
+ *
+ * Used as og:image for /p/:slug and downloadable from the Dashboard. Callers add
+ * `v=<updated_at>` (see getShareImageUrl), so a versioned URL never changes and
+ * is cached for a year; unversioned requests are only cached briefly.
+ */
+
+export const config = { runtime: 'edge' };
+
+export const SHARE_IMAGE_WIDTH = 1200;
+export const SHARE_IMAGE_HEIGHT = 630;
+
+const IMAGE_COLUMNS = 'full_name,job_title,company,profile_slug,profile_photo_url,background_photo_url,theme_color,updated_at';
+
+// Satori can't decode WebP/SVG - leave those out rather than failing the whole render
+const isRenderable = (url?: string | null): url is string =>
+  Boolean(url) && /^https?:\/\//.test(url!) && !/\.(webp|svg)(\?|$)/i.test(url!);
+
+const initials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(p => p[0].toUpperCase()).join('') || '?';
+
+const ShareCard = ({ profile }: { profile: Partial<Profile> }) => {
+  const accent = profile.theme_color || '#d7ba52';
+  const name = profile.full_name || 'Digital Business Card';
+  const role = [profile.job_title, profile.company].filter(Boolean).join(' · ');
+  const cover = getCoverImage(profile);
+  const photo = profile.profile_photo_url;
+
+  return (
+    <div style={{ width: '100%', height: '100%', display: 'flex', position: 'relative', backgroundColor: '#09090b', fontFamily: 'sans-serif' }}>
+      {isRenderable(cover) && (
+        <img src={cover} width={SHARE_IMAGE_WIDTH} height={SHARE_IMAGE_HEIGHT} style={{ position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', objectFit: 'cover' }} />
+      )}
+      {/* Darken the cover so white text always reads */}
+      <div style={{ position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', display: 'flex', backgroundImage: 'linear-gradient(90deg, rgba(0,0,0,0.88) 0%, rgba(0,0,0,0.65) 60%, rgba(0,0,0,0.35) 100%)' }} />
+
+      <div style={{ display: 'flex', alignItems: 'center', width: '100%', height: '100%', padding: '0 80px', position: 'relative' }}>
+        {isRenderable(photo) ? (
+          <img src={photo} width={260} height={260} style={{ width: 260, height: 260, borderRadius: 130, objectFit: 'cover', border: `8px solid ${accent}` }} />
+        ) : (
+          <div style={{ width: 260, height: 260, borderRadius: 130, display: 'flex', alignItems: 'center', justifyContent: 'center', backgroundColor: '#27272a', border: `8px solid ${accent}`, color: '#ffffff', fontSize: 96, fontWeight: 700 }}>
+            {initials(name)}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', flexDirection: 'column', marginLeft: 64, flex: 1 }}>
+          <div style={{ width: 96, height: 8, borderRadius: 4, backgroundColor: accent, marginBottom: 28 }} />
+          <div style={{ fontSize: name.length > 24 ? 58 : 72, fontWeight: 700, color: '#ffffff', lineHeight: 1.1 }}>{name}</div>
+          {role && <div style={{ fontSize: 36, color: 'rgba(255,255,255,0.8)', marginTop: 18 }}>{role}</div>}
+        </div>
+      </div>
+
+      <div style={{ position: 'absolute', bottom: 40, left: 80, right: 80, display: 'flex', justifyContent: 'space-between', fontSize: 26, color: 'rgba(255,255,255,0.7)' }}>
+        <span>{`${PUBLIC_SITE_URL.replace(/^https?:\/\/(www\.)?/, '')}/p/${profile.profile_slug}`}</span>
+        <span style={{ color: accent }}>Tap · Scan · Connect</span>
+      </div>
+    </div>
+  );
+};
+
+export default async function handler(request: Request): Promise<Response> {
+  const { searchParams } = new URL(request.url);
+  const slug = searchParams.get('slug') || '';
+  if (!SLUG_PATTERN.test(slug)) return new Response('Invalid slug', { status: 400 });
+
+  let profile: Partial<Profile> | null = null;
+  try {
+    profile = await fetchPublicProfile(slug, IMAGE_COLUMNS);
+  } catch (err) {
+    console.error('share-image fetch failed:', err);
+    return new Response('Could not load profile', { status: 502 });
+  }
+  if (!profile) return new Response('Profile not found', { status: 404 });
+
+  // Longer cache when the caller asked for the current version - still finite, so a card
+  // that is later disabled or PIN-protected stops being served from the CDN
+  const requested = searchParams.get('v');
+  const current = profile.updated_at ? String(Date.parse(profile.updated_at)) : null;
+  const cacheControl = requested && requested === current
+    ? 'public, s-maxage=86400, stale-while-revalidate=3600'
+    : 'public, s-maxage=300, stale-while-revalidate=86400';
+
+  const image = new ImageResponse(<ShareCard profile={profile} />, { width: SHARE_IMAGE_WIDTH, height: SHARE_IMAGE_HEIGHT });
+  // ImageResponse defaults to immutable; replace rather than append
+  image.headers.set('Cache-Control', cacheControl);
+  return image;
+}
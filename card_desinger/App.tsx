@@ -12,6 +12,9 @@ import { BUCKET_CARD_IMAGES } from '../constants';
 import { useToast } from '../context/ToastContext';
 import PreviewModeToggle from '../components/PreviewModeToggle';
 import { getPreferredPreviewMode, setPreferredPreviewMode } from '../utils/deviceDetection';
+import { getProfileUrl } from '../utils/profileUrl';
+import { ConflictChoice, FieldConflict, threeWayMerge, resolveConflicts, updateProfileAtRevision, fetchLatestProfile } from '../utils/conflicts';
+import MergeConflictDialog from '../components/MergeConflictDialog';
 
 declare const QRCodeStyling: any;
 
@@ -71,6 +74,23 @@ const fontsEmbedCss = `
 
 declare const htmlToImage: any;
 
+// What profiles.design_data holds
+type DesignData = { front?: CardFaceData; back?: CardFaceData; type?: 'business_card' | 'standie' };
+
+const DESIGN_FIELDS: (keyof DesignData)[] = ['front', 'back', 'type'];
+const DESIGN_LABELS: Record<keyof DesignData, string> = { front: 'Front side', back: 'Back side', type: 'Card type' };
+
+// One line per side for the merge dialog: its texts, image count and background
+const describeDesign = (field: keyof DesignData, value: any): string => {
+    if (!value) return '';
+    if (field === 'type') return value === 'standie' ? 'Standie' : 'Business card';
+    const face = value as CardFaceData;
+    const texts = face.texts.map(t => t.content).filter(Boolean).join(', ');
+    const images = face.images.filter(img => img.url).length;
+    const background = face.backgroundImageUrl ? 'image background' : `${face.backgroundColor} background`;
+    return [texts, `${images} image${images === 1 ? '' : 's'}`, background].filter(Boolean).join(' · ');
+};
+
 type SelectedElement = {
     id: string;
     type: 'text' | 'image';
@@ -122,6 +142,10 @@ const CardDesignerPage: React.FC = () => {
     const autoSaveTimerRef = useRef<number | null>(null);
     const mountedRef = useRef(true);
     const hasPendingChanges = useRef(false);
+    // The revision and design this page last loaded or saved, the base for merging someone else's save
+    const designBaseRef = useRef<{ revision: number | null; design: DesignData }>({ revision: null, design: {} });
+    const [designConflict, setDesignConflict] = useState<{ conflicts: FieldConflict[]; merged: DesignData; theirs: DesignData; manual: boolean } | null>(null);
+    const designConflictRef = useRef(false); // Read by saves already in flight when the dialog opens
 
     const getDimensions = useCallback(() => {
         if (cardType === 'standie') return { width: 400, height: 600 };
@@ -132,7 +156,7 @@ const CardDesignerPage: React.FC = () => {
 
     const generateDefaultQr = useCallback(async (slug: string, color: string = '#d7ba52') => {
         try {
-            const profileUrl = `https://www.canopycorp.in/#/p/${slug}`;
+            const profileUrl = getProfileUrl(slug, 'qr');
             const qr = new QRCodeStyling({
                 width: 300, height: 300, data: profileUrl,
                 dotsOptions: { color, type: 'rounded' },
@@ -216,6 +240,7 @@ const CardDesignerPage: React.FC = () => {
             // Now we have a profile (existing or newly created)
             setProfileId(data.id);
             setUserProfile(data);
+            designBaseRef.current = { revision: data.revision ?? null, design: data.design_data || {} };
             setStoragePath(data.storage_folder_path);
             const type = data.card_type === 'standie' ? 'standie' : 'business_card';
             setCardType(type);
@@ -291,6 +316,67 @@ const CardDesignerPage: React.FC = () => {
         return () => { mountedRef.current = false; subscription.unsubscribe(); };
     }, [navigate, generateDefaultQr, showToast]);
 
+    const applyDesign = useCallback((design: DesignData) => {
+        if (design.front) setFrontData(design.front);
+        if (design.back) setBackData(design.back);
+        if (design.type) setCardType(design.type);
+    }, []);
+
+    /**
+     * Writes design_data if the row is still at the revision this page last saw.
+     * Otherwise sides changed only elsewhere are taken over, and sides changed in
+     * both places open the merge dialog - then it returns false, nothing written.
+     */
+    const persistDesign = useCallback(async (targetId: string, design: DesignData, extra: Record<string, any> = {}, manual = false): Promise<boolean> => {
+        if (designConflictRef.current) return false;
+        const update = { ...extra, design_data: design, updated_at: new Date().toISOString() };
+        let row = await updateProfileAtRevision(targetId, designBaseRef.current.revision, update, 'revision, design_data');
+
+        if (!row) {
+            const latest = await fetchLatestProfile(targetId, 'revision, design_data');
+            const theirs: DesignData = latest.design_data || {};
+            const { merged, conflicts } = threeWayMerge(designBaseRef.current.design, design, theirs, DESIGN_FIELDS);
+            designBaseRef.current = { revision: latest.revision ?? null, design: theirs };
+
+            if (conflicts.length > 0) {
+                designConflictRef.current = true;
+                if (mountedRef.current) {
+                    setDesignConflict({
+                        conflicts: conflicts.map(field => ({
+                            field,
+                            label: DESIGN_LABELS[field as keyof DesignData],
+                            mine: describeDesign(field as keyof DesignData, design[field as keyof DesignData]),
+                            theirs: describeDesign(field as keyof DesignData, theirs[field as keyof DesignData]),
+                        })),
+                        merged,
+                        theirs,
+                        manual,
+                    });
+                }
+                return false;
+            }
+
+            row = await updateProfileAtRevision(targetId, designBaseRef.current.revision, { ...update, design_data: merged }, 'revision, design_data');
+            if (!row) throw new Error('The design was changed again while saving. Please try again.');
+            if (mountedRef.current) applyDesign(merged);
+        }
+
+        designBaseRef.current = { revision: row.revision ?? null, design: row.design_data || design };
+        return true;
+    }, [applyDesign]);
+
+    const resolveDesignConflict = useCallback((choices: Record<string, ConflictChoice>) => {
+        if (!designConflict || !profileId) return;
+        const resolved = resolveConflicts(designConflict.merged, designConflict.theirs, choices);
+        designConflictRef.current = false;
+        setDesignConflict(null);
+        applyDesign(resolved);
+        persistDesign(profileId, resolved)
+            .then(saved => { if (saved) hasPendingChanges.current = false; })
+            .catch(err => console.error("Saving the merged design failed:", err));
+        if (designConflict.manual) showToast('Merged. Press Save again to update the card images.', 'info');
+    }, [designConflict, profileId, applyDesign, persistDesign, showToast]);
+
     // Debounced Auto-Save Logic (Saves 5s after last change)
     useEffect(() => {
         if (autoSaveTimerRef.current) clearTimeout(autoSaveTimerRef.current);
@@ -300,23 +386,19 @@ const CardDesignerPage: React.FC = () => {
 
         autoSaveTimerRef.current = window.setTimeout(async () => {
             if (profileId && mountedRef.current) {
-                const client = getSupabase();
-                const { error } = await client.from('profiles').update({
-                    design_data: { front: frontData, back: backData, type: cardType },
-                    updated_at: new Date().toISOString()
-                }).eq('id', profileId);
-
-                if (error) {
+                try {
+                    if (await persistDesign(profileId, { front: frontData, back: backData, type: cardType })) {
+                        console.log("Auto-saved design data");
+                        hasPendingChanges.current = false;
+                    }
+                } catch (error) {
                     console.error("Auto-save failed:", error);
-                } else {
-                    console.log("Auto-saved design data");
-                    hasPendingChanges.current = false;
                 }
             }
         }, 5000);
 
         return () => { if (autoSaveTimerRef.current) clearTimeout(autoSaveTimerRef.current); };
-    }, [profileId, frontData, backData, cardType]);
+    }, [profileId, frontData, backData, cardType, persistDesign]);
 
     // Removed: visibility-based autosave (per minimal architecture - visibility changes trigger nothing)
 
@@ -568,13 +650,9 @@ const CardDesignerPage: React.FC = () => {
             if (!currentFolder) throw new Error("Storage folder path is missing.");
 
             // Save JSON data only (instant, no html-to-image dependency)
-            const { error: saveError } = await client.from('profiles').update({
-                card_type: cardType,
-                design_data: { front: frontData, back: backData, type: cardType },
-                updated_at: new Date().toISOString()
-            }).eq('id', currentProfileId);
-
-            if (saveError) throw saveError;
+            const saved = await persistDesign(currentProfileId!, { front: frontData, back: backData, type: cardType }, { card_type: cardType }, true);
+            // The merge dialog is up; images are made on the next save, from the merged design
+            if (!saved) return;
 
             // Update status (kept true)
             setSaveStatus("Generating print-ready images...");
@@ -644,7 +722,7 @@ const CardDesignerPage: React.FC = () => {
             setIsSaving(false);
             setSaveStatus('');
         }
-    }, [showToast, cardType, frontData, backData, profileId, storagePath, isSaving]);
+    }, [showToast, cardType, frontData, backData, profileId, storagePath, isSaving, persistDesign]);
 
     const activeData = activeSide === 'front' ? frontData : backData;
     const setActiveData = activeSide === 'front' ? setFrontData : setBackData;
@@ -771,6 +849,10 @@ const CardDesignerPage: React.FC = () => {
                 onAiGenerate={() => setAiModalOpen(true)}
                 isDesignModeActive={isDesignModeActive}
             />
+
+            {designConflict && (
+                <MergeConflictDialog conflicts={designConflict.conflicts} onResolve={resolveDesignConflict} />
+            )}
         </div>
     );
 };
@@ -3,6 +3,7 @@ import React, { useState, useEffect, useRef } from 'react';
 import type { Options, FileExtension, DotType, CornerSquareType, CornerDotType } from '../../custom_qr/types';
 import { DOT_TYPES, CORNER_SQUARE_TYPES, CORNER_DOT_TYPES } from '../../custom_qr/constants';
 import { getSupabase } from '../../lib/supabase';
+import { getProfileUrl, isProfileUrl } from '../../utils/profileUrl';
 
 declare const QRCodeStyling: any;
 
@@ -50,7 +51,7 @@ const CompactQrGenerator: React.FC<CompactQrGeneratorProps> = ({ onUpdate, onCan
                 const { data } = await getSupabase().from('profiles').select('id, full_name, profile_slug').eq('user_id', user.id).single();
                 if (data) {
                     setProfile(data);
-                    const targetUrl = `https://www.canopycorp.in/#/p/${data.profile_slug}`;
+                    const targetUrl = getProfileUrl(data.profile_slug, 'qr');
                     setUrl(targetUrl);
                     setDisplayContent(`${data.full_name}'s Profile`);
                 }
@@ -142,7 +143,7 @@ const CompactQrGenerator: React.FC<CompactQrGeneratorProps> = ({ onUpdate, onCan
                         setUrl(e.target.value); // Editing overwrites the data with raw text
                     }}
                     onBlur={() => {
-                        if (profile && url === `https://www.canopycorp.in/#/p/${profile.profile_slug}`) {
+                        if (profile && isProfileUrl(url, profile.profile_slug)) {
                             setDisplayContent(`${profile.full_name}'s Profile`);
                         }
                     }}
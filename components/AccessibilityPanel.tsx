@@ -0,0 +1,90 @@
+import React, { useMemo, useState } from 'react';
+import { Profile } from '../types';
+import { ContrastCheck, checkProfileContrast, getAccessibilityScore } from '../utils/contrast';
+
+interface AccessibilityPanelProps {
+  profile: Partial<Profile>;
+  onFix: (check: ContrastCheck, color: string) => void;
+}
+
+const scoreColor = (score: number) => (score >= 90 ? 'text-green-400' : score >= 60 ? 'text-yellow-400' : 'text-red-400');
+
+const CheckRow: React.FC<{ check: ContrastCheck; onFix: AccessibilityPanelProps['onFix'] }> = ({ check, onFix }) => (
+  <div className="flex items-center gap-2 py-1.5">
+    <span
+      className="w-8 h-6 rounded text-[10px] font-bold flex items-center justify-center shrink-0 border border-zinc-700"
+      style={{ backgroundColor: check.background, color: check.foreground }}
+    >
+      Aa
+    </span>
+    <span className="text-xs text-zinc-300 truncate flex-1">{check.label}</span>
+    <span className={`text-[10px] font-mono shrink-0 ${check.passes ? 'text-green-400' : 'text-red-400'}`}>
+      {check.ratio.toFixed(1)}:1
+    </span>
+    {check.suggestion && (
+      <button
+        type="button"
+        onClick={() => onFix(check, check.suggestion!)}
+        className="flex items-center gap-1 text-[10px] text-gold hover:underline shrink-0"
+        title={`Needs ${check.required}:1 - switch to ${check.suggestion}`}
+      >
+        <span className="w-3 h-3 rounded-sm border border-zinc-600" style={{ backgroundColor: check.suggestion }}></span>
+        Fix
+      </button>
+    )}
+  </div>
+);
+
+const AccessibilityPanel: React.FC<AccessibilityPanelProps> = ({ profile, onFix }) => {
+  const [showPassing, setShowPassing] = useState(false);
+  const checks = useMemo(() => checkProfileContrast(profile), [profile]);
+  const score = getAccessibilityScore(checks);
+  const failing = checks.filter(c => !c.passes);
+  const passing = checks.filter(c => c.passes);
+
+  return (
+    <div className="bg-zinc-800/50 p-3 rounded-lg border border-zinc-700 space-y-2">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-xs font-bold text-zinc-300 uppercase tracking-wide">Readability</h4>
+          <p className="text-[10px] text-zinc-500 mt-0.5">
+            {failing.length ? `${failing.length} colour pair${failing.length > 1 ? 's are' : ' is'} hard to read (WCAG AA)` : 'All text meets WCAG AA contrast'}
+          </p>
+        </div>
+        <div className={`text-2xl font-bold ${scoreColor(score)}`} title="Accessibility score">
+          {score}<span className="text-xs text-zinc-500">/100</span>
+        </div>
+      </div>
+
+      {failing.length > 0 && (
+        <div className="divide-y divide-zinc-800">
+          {failing.map(c => <CheckRow key={c.id} check={c} onFix={onFix} />)}
+        </div>
+      )}
+      {failing.length > 1 && failing.every(c => c.suggestion) && (
+        <button
+          type="button"
+          onClick={() => failing.forEach(c => onFix(c, c.suggestion!))}
+          className="w-full text-xs font-bold py-1.5 rounded border border-gold/40 text-gold hover:bg-gold/10 transition-colors"
+        >
+          Fix All
+        </button>
+      )}
+
+      {passing.length > 0 && (
+        <div>
+          <button type="button" onClick={() => setShowPassing(!showPassing)} className="text-[10px] text-zinc-500 hover:text-white">
+            {showPassing ? 'Hide' : 'Show'} {passing.length} passing
+          </button>
+          {showPassing && (
+            <div className="divide-y divide-zinc-800">
+              {passing.map(c => <CheckRow key={c.id} check={c} onFix={onFix} />)}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccessibilityPanel;
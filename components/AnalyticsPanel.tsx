@@ -0,0 +1,152 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Profile, ProfileSource } from '../types';
+import { EventCount, fetchEventCounts, summarizeEvents } from '../utils/analytics';
+
+interface AnalyticsPanelProps {
+  profile: Profile;
+}
+
+const RANGES = [7, 30, 90];
+
+const SOURCE_LABELS: { key: ProfileSource; label: string; color: string }[] = [
+  { key: 'nfc', label: 'NFC Tap', color: 'bg-gold' },
+  { key: 'qr', label: 'QR Scan', color: 'bg-zinc-300' },
+  { key: 'direct', label: 'Shared Link', color: 'bg-zinc-600' },
+];
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(value > 0 && value < 0.1 ? 1 : 0)}%`;
+
+const formatDay = (key: string) =>
+  new Date(`${key}T00:00:00`).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+
+const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({ profile }) => {
+  const [days, setDays] = useState(30);
+  const [events, setEvents] = useState<EventCount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetchEventCounts(profile.id, days)
+      .then(data => { if (!cancelled) setEvents(data); })
+      .catch(err => {
+        console.error('Analytics fetch error:', err);
+        if (!cancelled) setError('Could not load analytics.');
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [profile.id, days]);
+
+  const isStandie = profile.card_type === 'standie';
+  const summary = useMemo(
+    () => summarizeEvents(events, days, profile.custom_elements || [], profile.custom_button_text || (isStandie ? 'Open Link' : 'Save Contact')),
+    [events, days, profile.custom_elements, profile.custom_button_text, isStandie]
+  );
+  const peak = Math.max(1, ...summary.daily.map(d => Math.max(d.views, d.clicks)));
+
+  const stats = [
+    { label: 'Views', value: summary.views },
+    { label: 'Total Clicks', value: summary.clicks },
+    { label: isStandie ? 'Main Link Clicks' : 'Contacts Saved', value: summary.mainClicks },
+    { label: 'Click-Through', value: formatPercent(summary.views > 0 ? summary.clicks / summary.views : 0) },
+  ];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-3">
+          <div className="h-8 w-1 bg-gold rounded-full"></div>
+          <h2 className="text-xl font-bold text-white">Profile Analytics</h2>
+        </div>
+        <div className="flex bg-zinc-900 border border-zinc-800 rounded-lg p-0.5">
+          {RANGES.map(range => (
+            <button
+              key={range}
+              onClick={() => setDays(range)}
+              className={`px-3 py-1 text-xs font-bold rounded-md transition-colors ${days === range ? 'bg-gold text-black' : 'text-zinc-500 hover:text-white'}`}
+            >
+              {range}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="py-8 flex justify-center"><div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-gold"></div></div>
+      ) : error ? (
+        <p className="text-sm text-red-400 text-center py-6">{error}</p>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {stats.map(stat => (
+              <div key={stat.label} className="bg-zinc-900 border border-zinc-800 rounded-xl p-4">
+                <p className="text-[10px] uppercase tracking-wider font-bold text-zinc-500">{stat.label}</p>
+                <p className="text-2xl font-bold text-white mt-1">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Traffic by channel */}
+          <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-4">
+            <p className="text-[10px] uppercase tracking-wider font-bold text-zinc-500 mb-3">Views by Source</p>
+            <div className="flex h-2.5 rounded-full overflow-hidden bg-zinc-800">
+              {summary.views > 0 && SOURCE_LABELS.map(source => (
+                <div key={source.key} className={source.color} style={{ width: `${(summary.viewsBySource[source.key] / summary.views) * 100}%` }}></div>
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-3 mt-3">
+              {SOURCE_LABELS.map(source => (
+                <div key={source.key} className="flex items-center gap-2 text-xs">
+                  <span className={`w-2 h-2 rounded-sm ${source.color}`}></span>
+                  <span className="text-zinc-400">{source.label}</span>
+                  <span className="text-white font-bold ml-auto">{summary.viewsBySource[source.key]}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Daily series - views (gold) and clicks (white) side by side per day */}
+          <div className="bg-zinc-900 border border-zinc-800 rounded-xl p-4">
+            <div className="flex items-center gap-4 text-[10px] text-zinc-500 mb-3">
+              <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-gold"></span>Views</span>
+              <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-sm bg-zinc-300"></span>Clicks</span>
+            </div>
+            <div className="flex items-end gap-px h-32">
+              {summary.daily.map(day => (
+                <div key={day.date} className="flex-1 h-full flex items-end gap-px group relative" title={`${formatDay(day.date)}: ${day.views} views, ${day.clicks} clicks`}>
+                  <div className="flex-1 bg-gold/80 group-hover:bg-gold rounded-t-sm" style={{ height: `${(day.views / peak) * 100}%` }}></div>
+                  <div className="flex-1 bg-zinc-300/70 group-hover:bg-zinc-200 rounded-t-sm" style={{ height: `${(day.clicks / peak) * 100}%` }}></div>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between text-[10px] text-zinc-600 mt-2">
+              <span>{formatDay(summary.daily[0].date)}</span>
+              <span>{formatDay(summary.daily[summary.daily.length - 1].date)}</span>
+            </div>
+          </div>
+
+          {/* Per-button click-through */}
+          <div className="bg-zinc-900 border border-zinc-800 rounded-xl divide-y divide-zinc-800">
+            <div className="grid grid-cols-[1fr_auto_auto] gap-4 px-4 py-2 text-[10px] uppercase tracking-wider font-bold text-zinc-500">
+              <span>Button</span><span className="w-14 text-right">Clicks</span><span className="w-14 text-right">CTR</span>
+            </div>
+            {summary.buttons.map(btn => (
+              <div key={btn.id} className="grid grid-cols-[1fr_auto_auto] gap-4 px-4 py-2.5 text-sm items-center">
+                <span className="text-white truncate">
+                  {btn.label || 'Untitled'}
+                  <span className="ml-2 text-[10px] uppercase text-zinc-600">{btn.type === 'main' ? 'Primary' : btn.type}</span>
+                </span>
+                <span className="w-14 text-right text-zinc-300 font-mono">{btn.clicks}</span>
+                <span className="w-14 text-right text-gold font-mono">{formatPercent(btn.ctr)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsPanel;
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { CustomButtonElement, BlockData, BlockImage } from '../types';
+import { getEmbedInfo } from '../utils/blocks';
+
+interface BlockEditorPanelProps {
+  block: CustomButtonElement;
+  onChange: (patch: Partial<BlockData>) => void;
+  onUploadImage: (file: File) => Promise<string | null>;
+  inputClass: string;
+  labelClass: string;
+  defaultMapQuery?: string; // Offered as a one-click fill for map blocks
+}
+
+const MAX_GALLERY_IMAGES = 12;
+
+const BlockEditorPanel: React.FC<BlockEditorPanelProps> = ({ block, onChange, onUploadImage, inputClass, labelClass, defaultMapQuery }) => {
+  const data = block.data || {};
+  const [uploading, setUploading] = useState(false);
+  const images = data.images || [];
+
+  const alignSelect = (
+    <div>
+      <label className={labelClass}>Alignment</label>
+      <select value={data.align || 'center'} onChange={(e) => onChange({ align: e.target.value as BlockData['align'] })} className={inputClass}>
+        <option value="left">Left</option>
+        <option value="center">Center</option>
+        <option value="right">Right</option>
+      </select>
+    </div>
+  );
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>, replace: boolean) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setUploading(true);
+    try {
+      const room = replace ? 1 : MAX_GALLERY_IMAGES - images.length;
+      const urls = (await Promise.all(files.slice(0, room).map(onUploadImage))).filter(Boolean) as string[];
+      const uploaded: BlockImage[] = urls.map(url => ({ url }));
+      onChange({ images: replace ? uploaded.slice(0, 1) : [...images, ...uploaded] });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const updateImage = (index: number, patch: Partial<BlockImage>) =>
+    onChange({ images: images.map((img, i) => (i === index ? { ...img, ...patch } : img)) });
+
+  const removeImage = (index: number) => onChange({ images: images.filter((_, i) => i !== index) });
+
+  switch (block.type) {
+    case 'heading':
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="col-span-2"><label className={labelClass}>Heading</label><input type="text" value={data.text || ''} onChange={(e) => onChange({ text: e.target.value })} className={inputClass} maxLength={80} /></div>
+          <div>
+            <label className={labelClass}>Size</label>
+            <select value={data.size || 'md'} onChange={(e) => onChange({ size: e.target.value as BlockData['size'] })} className={inputClass}>
+              <option value="sm">Small</option>
+              <option value="md">Medium</option>
+              <option value="lg">Large</option>
+            </select>
+          </div>
+          {alignSelect}
+        </div>
+      );
+
+    case 'text':
+      return (
+        <div className="space-y-2">
+          <div>
+            <label className={labelClass}>Text</label>
+            <textarea value={data.text || ''} onChange={(e) => onChange({ text: e.target.value })} rows={4} className={inputClass} maxLength={2000} />
+            <p className="text-[10px] text-zinc-500 mt-1">**bold** · *italic* · [link text](https://...) · start lines with "- " for a list</p>
+          </div>
+          {alignSelect}
+        </div>
+      );
+
+    case 'image':
+    case 'gallery': {
+      const isGallery = block.type === 'gallery';
+      return (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2">
+            {images.map((img, i) => (
+              <div key={`${img.url}-${i}`} className="w-24 space-y-1">
+                <div className="relative w-24 h-16 rounded overflow-hidden border border-zinc-700 bg-zinc-950">
+                  <img src={img.url} className="w-full h-full object-cover" />
+                  <button onClick={() => removeImage(i)} className="absolute top-0.5 right-0.5 w-4 h-4 rounded-full bg-black/70 text-[8px] text-red-300" title="Remove">✕</button>
+                </div>
+                <input type="text" value={img.caption || ''} onChange={(e) => updateImage(i, { caption: e.target.value })} placeholder="Caption" className={`${inputClass} !text-[10px] !py-1`} maxLength={80} />
+              </div>
+            ))}
+            {(isGallery ? images.length < MAX_GALLERY_IMAGES : true) && (
+              <label className="w-24 h-16 bg-zinc-800 border border-dashed border-zinc-600 rounded flex items-center justify-center cursor-pointer hover:border-gold transition-colors">
+                <span className="text-[10px] text-zinc-400 font-medium">{uploading ? 'Uploading...' : isGallery ? '+ Add Photos' : images.length ? 'Replace' : '+ Upload'}</span>
+                <input type="file" className="hidden" accept="image/*" multiple={isGallery} disabled={uploading} onChange={(e) => handleFiles(e, !isGallery)} />
+              </label>
+            )}
+          </div>
+          {!isGallery && (
+            <div><label className={labelClass}>Link when tapped (optional)</label><input type="text" value={data.linkUrl || ''} onChange={(e) => onChange({ linkUrl: e.target.value })} placeholder="https://..." className={inputClass} /></div>
+          )}
+        </div>
+      );
+    }
+
+    case 'embed': {
+      const isValid = !data.embedUrl || Boolean(getEmbedInfo(data.embedUrl));
+      return (
+        <div>
+          <label className={labelClass}>YouTube or Vimeo URL</label>
+          <input type="text" value={data.embedUrl || ''} onChange={(e) => onChange({ embedUrl: e.target.value })} placeholder="https://youtu.be/..." className={`${inputClass} ${isValid ? '' : '!border-red-500'}`} />
+          {!isValid && <p className="text-[10px] text-red-400 mt-1">Paste a YouTube or Vimeo video link.</p>}
+        </div>
+      );
+    }
+
+    case 'divider':
+      return (
+        <div>
+          <label className={labelClass}>Style</label>
+          <select value={data.variant || 'line'} onChange={(e) => onChange({ variant: e.target.value as BlockData['variant'] })} className={inputClass}>
+            <option value="line">Line</option>
+            <option value="dots">Dots</option>
+            <option value="space">Empty space</option>
+          </select>
+        </div>
+      );
+
+    case 'map':
+      return (
+        <div>
+          <label className={labelClass}>Address or place</label>
+          <input type="text" value={data.query || ''} onChange={(e) => onChange({ query: e.target.value })} placeholder="e.g. CanopyCorp, Pune" className={inputClass} />
+          {defaultMapQuery && !data.query && (
+            <button onClick={() => onChange({ query: defaultMapQuery })} className="text-[10px] text-gold hover:underline mt-1">Use my address</button>
+          )}
+        </div>
+      );
+
+    default:
+      return null;
+  }
+};
+
+export default BlockEditorPanel;
@@ -0,0 +1,155 @@
+import React from 'react';
+import { CustomButtonElement } from '../types';
+import { getEmbedInfo, getMapEmbedUrl, getMapLinkUrl } from '../utils/blocks';
+
+interface ContentBlockProps {
+  block: CustomButtonElement;
+  textColor: string;
+  accentColor: string;
+  isInteractive?: boolean; // When false, links and embeds are not clickable (preview mode)
+}
+
+const ALIGN_CLASS = { left: 'text-left', center: 'text-center', right: 'text-right' };
+const HEADING_CLASS = { sm: 'text-base', md: 'text-xl', lg: 'text-2xl' };
+
+const SAFE_LINK = /^(https?:|mailto:|tel:)/i;
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|\*[^*]+\*|\[[^\]]+\]\([^)\s]+\))/g;
+
+// **bold**, *italic* and [label](url) - everything else is plain text, never HTML
+const renderInline = (text: string, isInteractive: boolean, accentColor: string): React.ReactNode[] =>
+  text.split(INLINE_PATTERN).filter(Boolean).map((part, i) => {
+    if (part.startsWith('**') && part.endsWith('**')) return <strong key={i}>{part.slice(2, -2)}</strong>;
+    if (part.startsWith('*') && part.endsWith('*') && part.length > 2) return <em key={i}>{part.slice(1, -1)}</em>;
+    const link = part.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+    if (link) {
+      if (!isInteractive || !SAFE_LINK.test(link[2])) return <span key={i} className="underline">{link[1]}</span>;
+      return <a key={i} href={link[2]} target="_blank" rel="noopener noreferrer" className="underline" style={{ color: accentColor }}>{link[1]}</a>;
+    }
+    return <React.Fragment key={i}>{part}</React.Fragment>;
+  });
+
+const RichText: React.FC<{ text: string; isInteractive: boolean; accentColor: string }> = ({ text, isInteractive, accentColor }) => {
+  // Paragraphs are separated by blank lines; consecutive "- " lines form a list
+  const paragraphs = text.replace(/\r\n/g, '\n').split(/\n{2,}/).filter(p => p.trim());
+  return (
+    <>
+      {paragraphs.map((para, i) => {
+        const lines = para.split('\n');
+        if (lines.every(l => /^\s*[-*]\s+/.test(l))) {
+          return (
+            <ul key={i} className="list-disc list-inside space-y-1 text-left inline-block">
+              {lines.map((l, j) => <li key={j}>{renderInline(l.replace(/^\s*[-*]\s+/, ''), isInteractive, accentColor)}</li>)}
+            </ul>
+          );
+        }
+        return (
+          <p key={i}>
+            {lines.map((l, j) => (
+              <React.Fragment key={j}>{j > 0 && <br />}{renderInline(l, isInteractive, accentColor)}</React.Fragment>
+            ))}
+          </p>
+        );
+      })}
+    </>
+  );
+};
+
+const ContentBlock: React.FC<ContentBlockProps> = ({ block, textColor, accentColor, isInteractive = true }) => {
+  const data = block.data || {};
+  const align = ALIGN_CLASS[data.align || 'center'];
+  const frameClass = `w-full overflow-hidden rounded-xl bg-black/20 ${isInteractive ? '' : 'pointer-events-none'}`;
+
+  switch (block.type) {
+    case 'heading':
+      if (!data.text) return null;
+      return <h2 className={`w-full font-bold pt-2 ${HEADING_CLASS[data.size || 'md']} ${align}`} style={{ color: textColor }}>{data.text}</h2>;
+
+    case 'text':
+      if (!data.text?.trim()) return null;
+      return (
+        <div className={`w-full text-sm leading-relaxed space-y-2 opacity-90 ${align}`} style={{ color: textColor }}>
+          <RichText text={data.text} isInteractive={isInteractive} accentColor={accentColor} />
+        </div>
+      );
+
+    case 'image': {
+      const image = data.images?.[0];
+      if (!image?.url) return null;
+      const img = <img src={image.url} alt={image.caption || ''} className="w-full h-auto object-cover" loading="lazy" />;
+      return (
+        <figure className="w-full">
+          <div className="w-full overflow-hidden rounded-xl">
+            {isInteractive && data.linkUrl && SAFE_LINK.test(data.linkUrl)
+              ? <a href={data.linkUrl} target="_blank" rel="noopener noreferrer">{img}</a>
+              : img}
+          </div>
+          {image.caption && <figcaption className="text-xs mt-1.5 opacity-70 text-center" style={{ color: textColor }}>{image.caption}</figcaption>}
+        </figure>
+      );
+    }
+
+    case 'gallery': {
+      const images = (data.images || []).filter(img => img.url);
+      if (images.length === 0) return null;
+      return (
+        <div className="w-full">
+          <div className="flex gap-2 overflow-x-auto snap-x snap-mandatory scrollbar-hide rounded-xl">
+            {images.map((img, i) => (
+              <figure key={`${img.url}-${i}`} className="snap-center shrink-0 w-4/5 first:ml-0">
+                <img src={img.url} alt={img.caption || ''} className="w-full aspect-[4/3] object-cover rounded-xl" loading="lazy" />
+                {img.caption && <figcaption className="text-xs mt-1 opacity-70 text-center" style={{ color: textColor }}>{img.caption}</figcaption>}
+              </figure>
+            ))}
+          </div>
+          {images.length > 1 && <p className="text-[10px] opacity-50 text-center mt-1" style={{ color: textColor }}>{images.length} photos · swipe</p>}
+        </div>
+      );
+    }
+
+    case 'embed': {
+      const embed = getEmbedInfo(data.embedUrl || '');
+      if (!embed) return null;
+      return (
+        <div className={`${frameClass} aspect-video`}>
+          <iframe
+            src={embed.embedUrl}
+            title={block.label || 'Video'}
+            className="w-full h-full border-0"
+            loading="lazy"
+            allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; fullscreen"
+            allowFullScreen
+          />
+        </div>
+      );
+    }
+
+    case 'divider':
+      if (data.variant === 'space') return <div className="w-full h-6" aria-hidden="true" />;
+      if (data.variant === 'dots') {
+        return <div className="w-full text-center tracking-[0.5em] opacity-50 py-1" style={{ color: textColor }} aria-hidden="true">•••</div>;
+      }
+      return <hr className="w-full border-0 h-px opacity-30 my-1" style={{ backgroundColor: textColor }} />;
+
+    case 'map': {
+      const query = (data.query || '').trim();
+      if (!query) return null;
+      return (
+        <div className="w-full space-y-1.5">
+          <div className={`${frameClass} aspect-[16/10]`}>
+            <iframe src={getMapEmbedUrl(query)} title={`Map of ${query}`} className="w-full h-full border-0" loading="lazy" referrerPolicy="no-referrer-when-downgrade" />
+          </div>
+          {isInteractive && (
+            <a href={getMapLinkUrl(query)} target="_blank" rel="noopener noreferrer" className="block text-xs text-center underline opacity-80" style={{ color: textColor }}>
+              Open in Google Maps
+            </a>
+          )}
+        </div>
+      );
+    }
+
+    default:
+      return null;
+  }
+};
+
+export default ContentBlock;
@@ -1,12 +1,28 @@
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useProfile } from '../context/ProfileContext';
 import { getSupabase } from '../lib/supabase';
+import LeadsInbox from './LeadsInbox';
+import AnalyticsPanel from './AnalyticsPanel';
+import ShareImagePanel from './ShareImagePanel';
+import { hasUnpublishedChanges, getDraft } from '../utils/drafts';
+import { getThumbnailUrl } from '../utils/imageProcessing';
 
 const Dashboard: React.FC = () => {
   const { profile, loading, error, refreshProfile, signOut } = useProfile();
   const navigate = useNavigate();
+  const [hasDraft, setHasDraft] = useState(false);
+
+  // Drafts sit in their own owner-only table, so they're looked up separately
+  useEffect(() => {
+    if (!profile?.id) return;
+    let cancelled = false;
+    getDraft(profile.id)
+      .then(draft => { if (!cancelled) setHasDraft(hasUnpublishedChanges(draft)); })
+      .catch(err => console.error('Draft fetch failed:', err));
+    return () => { cancelled = true; };
+  }, [profile]);
 
   // If user is not logged in, ProfileProvider handles fetching, 
   // but we might want to redirect if not found after loading.
@@ -138,7 +154,7 @@ const Dashboard: React.FC = () => {
             <div className="h-32 w-full relative bg-zinc-800">
               {profile.background_photo_url && (
                 <img
-                  src={profile.background_photo_url}
+                  src={getThumbnailUrl(profile.background_photo_url) || profile.background_photo_url}
                   alt="Background"
                   className="w-full h-full object-cover opacity-70 group-hover:opacity-80 transition-opacity duration-500"
                   style={{
@@ -162,7 +178,7 @@ const Dashboard: React.FC = () => {
               {/* Profile Image */}
               <div className="relative mb-3 group-hover:-translate-y-1 transition-transform duration-300">
                 <img
-                  src={profile.profile_photo_url || `https://ui-avatars.com/api/?name=${encodeURIComponent(profile.full_name)}&background=random`}
+                  src={getThumbnailUrl(profile.profile_photo_url) || profile.profile_photo_url || `https://ui-avatars.com/api/?name=${encodeURIComponent(profile.full_name)}&background=random`}
                   className={`w-28 h-28 object-cover border-[5px] border-zinc-900 shadow-2xl ${profile.card_shape} bg-zinc-800`}
                   alt={profile.full_name}
                 />
@@ -174,7 +190,20 @@ const Dashboard: React.FC = () => {
               </div>
 
               <h2 className="text-2xl font-bold text-white mb-0.5 tracking-tight">{profile.full_name}</h2>
-              <p className="text-sm text-zinc-400 font-medium mb-6">{profile.company || 'Professional'}</p>
+              <p className="text-sm text-zinc-400 font-medium mb-6">{[profile.job_title, profile.company].filter(Boolean).join(' · ') || 'Professional'}</p>
+
+              {hasDraft && (
+                <Link
+                  to={`/profile/${profile.id}/edit`}
+                  className="w-full max-w-lg mb-4 -mt-2 flex items-center justify-between gap-3 px-4 py-2.5 rounded-xl bg-amber-400/10 border border-amber-400/30 hover:border-amber-400/60 transition-colors"
+                >
+                  <span className="flex items-center gap-2 text-xs font-bold text-amber-400">
+                    <span className="w-2 h-2 rounded-full bg-amber-400 animate-pulse"></span>
+                    You have unpublished changes
+                  </span>
+                  <span className="text-[10px] font-bold text-zinc-300 uppercase tracking-wide">Review &amp; Publish →</span>
+                </Link>
+              )}
 
               {/* Action Grid */}
               <div className="grid grid-cols-3 gap-3 w-full max-w-lg mb-6">
@@ -298,6 +327,15 @@ const Dashboard: React.FC = () => {
               </div>
             )}
           </div>
+
+          {/* Social share card */}
+          {profile.profile_slug && <ShareImagePanel profile={profile} />}
+
+          {/* Views & Clicks */}
+          <AnalyticsPanel profile={profile} />
+
+          {/* Exchange Contact Leads */}
+          <LeadsInbox ownerId={profile.user_id} profileId={profile.id} enabled={Boolean(profile.lead_capture?.enabled)} />
         </div>
       )}
     </div>
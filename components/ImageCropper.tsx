@@ -0,0 +1,175 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SHAPES } from '../constants';
+import { ImageCrop } from '../utils/imageProcessing';
+
+interface ImageCropperProps {
+  file: File;
+  shape: string; // card_shape class - the mask matches how the photo is shown
+  onShapeChange?: (shape: string) => void;
+  onCancel: () => void;
+  onConfirm: (crop: ImageCrop) => void;
+}
+
+const VIEW_SIZE = 260; // Crop window in px; the crop is always square
+const MAX_ZOOM = 4;
+const KEY_STEP = 10;
+
+/**
+ * Square cropper for the profile photo: drag to move, slider / wheel / +- to
+ * zoom. The image always covers the window, so there are never empty edges.
+ */
+const ImageCropper: React.FC<ImageCropperProps> = ({ file, shape, onShapeChange, onCancel, onConfirm }) => {
+  const src = useMemo(() => URL.createObjectURL(file), [file]);
+  useEffect(() => () => URL.revokeObjectURL(src), [src]);
+
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 }); // Image top-left inside the window
+  const dragRef = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+
+  const scaleFor = (z: number) => (natural ? (VIEW_SIZE / Math.min(natural.width, natural.height)) * z : 1);
+  const scale = scaleFor(zoom);
+
+  const clamp = (next: { x: number; y: number }, s = scale) => {
+    if (!natural) return next;
+    const minX = VIEW_SIZE - natural.width * s;
+    const minY = VIEW_SIZE - natural.height * s;
+    return { x: Math.min(0, Math.max(minX, next.x)), y: Math.min(0, Math.max(minY, next.y)) };
+  };
+
+  const handleLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+    const s = VIEW_SIZE / Math.min(width, height);
+    setNatural({ width, height });
+    setZoom(1);
+    setOffset({ x: (VIEW_SIZE - width * s) / 2, y: (VIEW_SIZE - height * s) / 2 });
+  };
+
+  // Zooms around the middle of the window
+  const changeZoom = (value: number) => {
+    const nextZoom = Math.min(MAX_ZOOM, Math.max(1, value));
+    const nextScale = scaleFor(nextZoom);
+    const centerX = (VIEW_SIZE / 2 - offset.x) / scale;
+    const centerY = (VIEW_SIZE / 2 - offset.y) / scale;
+    setZoom(nextZoom);
+    setOffset(clamp({ x: VIEW_SIZE / 2 - centerX * nextScale, y: VIEW_SIZE / 2 - centerY * nextScale }, nextScale));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, ...offset };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    setOffset(clamp({ x: drag.x + e.clientX - drag.pointerX, y: drag.y + e.clientY - drag.pointerY }));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const moves: Record<string, [number, number]> = { ArrowLeft: [KEY_STEP, 0], ArrowRight: [-KEY_STEP, 0], ArrowUp: [0, KEY_STEP], ArrowDown: [0, -KEY_STEP] };
+    if (moves[e.key]) {
+      e.preventDefault();
+      setOffset(prev => clamp({ x: prev.x + moves[e.key][0], y: prev.y + moves[e.key][1] }));
+    } else if (e.key === '+' || e.key === '=') {
+      changeZoom(zoom + 0.1);
+    } else if (e.key === '-') {
+      changeZoom(zoom - 0.1);
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!natural) return;
+    onConfirm({ x: -offset.x / scale, y: -offset.y / scale, width: VIEW_SIZE / scale, height: VIEW_SIZE / scale });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4" onClick={onCancel}>
+      <div className="w-full max-w-sm bg-zinc-900 rounded-xl border border-zinc-700 shadow-2xl overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-4 py-3 border-b border-zinc-800">
+          <h3 className="text-sm font-bold text-white">Crop Photo</h3>
+          <p className="text-[10px] text-zinc-500">Drag to position, zoom to frame your face</p>
+        </div>
+
+        <div className="p-4 flex flex-col items-center gap-4">
+          <div
+            className="relative overflow-hidden bg-zinc-950 cursor-move touch-none select-none focus:outline-none focus:ring-2 focus:ring-gold"
+            style={{ width: VIEW_SIZE, height: VIEW_SIZE }}
+            tabIndex={0}
+            role="application"
+            aria-label="Photo crop area. Arrow keys move the photo, plus and minus zoom."
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => { dragRef.current = null; }}
+            onPointerCancel={() => { dragRef.current = null; }}
+            onWheel={e => changeZoom(zoom - e.deltaY * 0.002)}
+            onKeyDown={handleKeyDown}
+          >
+            <img
+              src={src}
+              alt=""
+              draggable={false}
+              onLoad={handleLoad}
+              className="absolute pointer-events-none"
+              style={{
+                left: offset.x,
+                top: offset.y,
+                width: natural ? natural.width * scale : VIEW_SIZE,
+                height: natural ? natural.height * scale : 'auto',
+                maxWidth: 'none',
+              }}
+            />
+            {/* Dims whatever the card shape cuts off */}
+            <div className={`absolute inset-0 pointer-events-none ring-2 ring-white/80 ${shape}`} style={{ boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.55)' }} />
+          </div>
+
+          <div className="w-full flex items-center gap-3">
+            <span className="text-[10px] text-zinc-500 font-bold uppercase">Zoom</span>
+            <input
+              type="range"
+              min={1}
+              max={MAX_ZOOM}
+              step={0.01}
+              value={zoom}
+              onChange={e => changeZoom(parseFloat(e.target.value))}
+              className="flex-1 accent-gold"
+              disabled={!natural}
+            />
+          </div>
+
+          {onShapeChange && (
+            <div className="w-full flex items-center gap-2">
+              <span className="text-[10px] text-zinc-500 font-bold uppercase">Shape</span>
+              {SHAPES.map(s => (
+                <button
+                  key={s.value}
+                  type="button"
+                  onClick={() => onShapeChange(s.value)}
+                  className={`text-[10px] px-2 py-1 rounded border transition-colors ${shape === s.value ? 'border-gold text-gold' : 'border-zinc-700 text-zinc-400 hover:text-white'}`}
+                >
+                  {s.name}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="px-4 py-3 border-t border-zinc-800 flex justify-end gap-2">
+          <button type="button" onClick={onCancel} className="text-xs px-4 py-2 rounded bg-zinc-800 text-zinc-300 hover:bg-zinc-700 transition-colors">
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleConfirm}
+            disabled={!natural}
+            className="text-xs font-bold px-4 py-2 rounded bg-gold text-black hover:bg-gold/90 disabled:opacity-40 transition-colors"
+          >
+            Use Photo
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageCropper;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Profile, LeadCaptureSettings } from '../types';
+import { DEFAULT_LEAD_CAPTURE } from '../constants';
+import { submitLead, LeadFormInput } from '../utils/leadService';
+
+interface LeadCaptureFormProps {
+  profile: Partial<Profile>;
+  isInteractive?: boolean; // When false the form can be opened but not submitted (preview mode)
+}
+
+const EMPTY_INPUT: LeadFormInput = { name: '', phone: '', email: '', company: '', note: '', consent: false };
+
+const LeadCaptureForm: React.FC<LeadCaptureFormProps> = ({ profile, isInteractive = true }) => {
+  const settings: LeadCaptureSettings = { ...DEFAULT_LEAD_CAPTURE, ...(profile.lead_capture || {}) };
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState<LeadFormInput>(EMPTY_INPUT);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+
+  const accent = profile.theme_color || '#d7ba52';
+  const textColor = profile.card_text_color || '#ffffff';
+
+  const update = (field: keyof LeadFormInput, value: string | boolean) => {
+    setInput(prev => ({ ...prev, [field]: value }));
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isInteractive) return;
+
+    setLoading(true);
+    try {
+      await submitLead(profile, input);
+      setSubmitted(true);
+      setInput(EMPTY_INPUT);
+    } catch (err: any) {
+      setError(err.message || 'Could not send your details. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fieldClass = "w-full bg-black/30 border border-white/15 rounded-lg px-3 py-2.5 text-sm placeholder-white/40 focus:outline-none focus:border-white/50 transition-colors";
+
+  if (submitted) {
+    return (
+      <div className="w-full max-w-md mt-6 p-5 rounded-2xl border border-white/10 bg-black/30 backdrop-blur-sm text-center" style={{ color: textColor }}>
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 mx-auto mb-2" fill="none" viewBox="0 0 24 24" stroke={accent}>
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        <h3 className="font-bold">Details Shared!</h3>
+        <p className="text-sm opacity-70 mt-1">{profile.full_name || 'The owner'} will be in touch.</p>
+      </div>
+    );
+  }
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="w-full max-w-md mt-6 py-3 px-4 rounded-xl font-semibold border-2 flex items-center justify-center gap-2 transition-all duration-300 hover:scale-[1.03] active:scale-[0.98] bg-black/20 backdrop-blur-sm"
+        style={{ borderColor: accent, color: textColor }}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+        </svg>
+        {settings.buttonText}
+      </button>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="w-full max-w-md mt-6 p-5 rounded-2xl border border-white/10 bg-black/30 backdrop-blur-sm text-left space-y-3"
+      style={{ color: textColor }}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <h3 className="font-bold text-lg">{settings.title}</h3>
+        <button type="button" onClick={() => setOpen(false)} className="opacity-60 hover:opacity-100 text-xl leading-none" aria-label="Close">&times;</button>
+      </div>
+
+      <input type="text" value={input.name} onChange={e => update('name', e.target.value)} placeholder="Your Name *" className={fieldClass} maxLength={120} autoComplete="name" />
+      <input type="tel" value={input.phone} onChange={e => update('phone', e.target.value)} placeholder="Phone" className={fieldClass} maxLength={40} autoComplete="tel" />
+      <input type="email" value={input.email} onChange={e => update('email', e.target.value)} placeholder="Email" className={fieldClass} maxLength={200} autoComplete="email" />
+      {settings.askCompany && (
+        <input type="text" value={input.company} onChange={e => update('company', e.target.value)} placeholder="Company" className={fieldClass} maxLength={160} autoComplete="organization" />
+      )}
+      {settings.askNote && (
+        <textarea value={input.note} onChange={e => update('note', e.target.value)} placeholder="Note (optional)" className={`${fieldClass} resize-none`} rows={2} maxLength={1000} />
+      )}
+
+      <label className="flex items-start gap-2 text-xs opacity-80 cursor-pointer">
+        <input type="checkbox" checked={input.consent} onChange={e => update('consent', e.target.checked)} className="mt-0.5" style={{ accentColor: accent }} />
+        <span>{settings.consentText}</span>
+      </label>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={loading || !isInteractive}
+        className="w-full py-3 rounded-xl font-bold transition-all disabled:opacity-50"
+        style={{ backgroundColor: accent, color: '#000000' }}
+      >
+        {loading ? 'Sending...' : 'Share My Details'}
+      </button>
+      {!isInteractive && <p className="text-[10px] text-center opacity-60">Preview only - submissions are disabled.</p>}
+    </form>
+  );
+};
+
+export default LeadCaptureForm;
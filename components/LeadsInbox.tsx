@@ -0,0 +1,275 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Lead } from '../types';
+import { fetchLeads, setLeadsRead, deleteLeads, leadsToCsv } from '../utils/leadService';
+import { generateLeadsVCard } from '../utils/vcardGenerator';
+import { useToast } from '../context/ToastContext';
+
+interface LeadsInboxProps {
+  ownerId: string;
+  enabled: boolean; // Whether the exchange-contact form is switched on for the profile
+  profileId: string;
+}
+
+type DateRange = 'all' | 'today' | '7d' | '30d' | 'custom';
+type ReadFilter = 'all' | 'unread' | 'read';
+
+const DATE_RANGES: { value: DateRange; label: string }[] = [
+  { value: 'all', label: 'All time' },
+  { value: 'today', label: 'Today' },
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: 'custom', label: 'Custom' },
+];
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// [from, to) bounds for the selected range; null means unbounded
+const getRangeBounds = (range: DateRange, customFrom: string, customTo: string): [Date | null, Date | null] => {
+  const today = startOfDay(new Date());
+  switch (range) {
+    case 'today': return [today, null];
+    case '7d': return [new Date(today.getTime() - 6 * 86400000), null];
+    case '30d': return [new Date(today.getTime() - 29 * 86400000), null];
+    case 'custom': {
+      // <input type="date"> values are local calendar days; the "to" day is inclusive
+      const from = customFrom ? new Date(`${customFrom}T00:00:00`) : null;
+      const to = customTo ? new Date(new Date(`${customTo}T00:00:00`).getTime() + 86400000) : null;
+      return [from, to];
+    }
+    default: return [null, null];
+  }
+};
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = window.URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
+
+const LeadsInbox: React.FC<LeadsInboxProps> = ({ ownerId, enabled, profileId }) => {
+  const { showToast } = useToast();
+  const [leads, setLeads] = useState<Lead[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [search, setSearch] = useState('');
+  const [dateRange, setDateRange] = useState<DateRange>('all');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [readFilter, setReadFilter] = useState<ReadFilter>('all');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setLeads(await fetchLeads(ownerId));
+      setSelectedIds(new Set());
+    } catch (err: any) {
+      console.error('Leads fetch error:', err);
+      setError('Could not load your contacts.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [ownerId]);
+
+  const filteredLeads = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const [from, to] = getRangeBounds(dateRange, customFrom, customTo);
+    return leads.filter(lead => {
+      if (readFilter === 'unread' && lead.is_read) return false;
+      if (readFilter === 'read' && !lead.is_read) return false;
+      const created = new Date(lead.created_at);
+      if (from && created < from) return false;
+      if (to && created >= to) return false;
+      if (!query) return true;
+      return [lead.name, lead.phone, lead.email, lead.company, lead.note]
+        .some(field => (field || '').toLowerCase().includes(query));
+    });
+  }, [leads, search, dateRange, customFrom, customTo, readFilter]);
+
+  const unreadCount = leads.filter(l => !l.is_read).length;
+  const selectedLeads = filteredLeads.filter(l => selectedIds.has(l.id));
+  const allVisibleSelected = filteredLeads.length > 0 && selectedLeads.length === filteredLeads.length;
+  // Bulk actions apply to the selection, or to everything currently visible when nothing is ticked
+  const targetLeads = selectedLeads.length > 0 ? selectedLeads : filteredLeads;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(filteredLeads.map(l => l.id)));
+  };
+
+  const handleMarkRead = async (ids: string[], isRead: boolean) => {
+    const changed = ids.filter(id => leads.find(l => l.id === id)?.is_read !== isRead);
+    if (changed.length === 0) return;
+    // Optimistic - roll back if the update fails
+    setLeads(prev => prev.map(l => (changed.includes(l.id) ? { ...l, is_read: isRead } : l)));
+    try {
+      await setLeadsRead(changed, isRead);
+    } catch (err: any) {
+      console.error('Lead update error:', err);
+      setLeads(prev => prev.map(l => (changed.includes(l.id) ? { ...l, is_read: !isRead } : l)));
+      showToast('Could not update contacts.', 'error');
+    }
+  };
+
+  const handleExpand = (lead: Lead) => {
+    setExpandedId(expandedId === lead.id ? null : lead.id);
+    if (!lead.is_read) handleMarkRead([lead.id], true);
+  };
+
+  const handleDelete = async () => {
+    if (selectedLeads.length === 0) return;
+    if (!window.confirm(`Delete ${selectedLeads.length} contact${selectedLeads.length > 1 ? 's' : ''}? This cannot be undone.`)) return;
+
+    setBusy(true);
+    const ids = selectedLeads.map(l => l.id);
+    try {
+      await deleteLeads(ids);
+      setLeads(prev => prev.filter(l => !ids.includes(l.id)));
+      setSelectedIds(new Set());
+      showToast(`Deleted ${ids.length} contact${ids.length > 1 ? 's' : ''}.`, 'success');
+    } catch (err: any) {
+      console.error('Lead delete error:', err);
+      showToast('Could not delete contacts.', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const exportFileName = (ext: string) => `contacts-${new Date().toISOString().slice(0, 10)}.${ext}`;
+
+  const handleExportCsv = () => {
+    if (targetLeads.length === 0) return;
+    downloadFile(leadsToCsv(targetLeads), exportFileName('csv'), 'text/csv;charset=utf-8');
+  };
+
+  const handleExportVCard = () => {
+    if (targetLeads.length === 0) return;
+    downloadFile(generateLeadsVCard(targetLeads), exportFileName('vcf'), 'text/vcard;charset=utf-8');
+  };
+
+  const controlClass = "bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-white placeholder-zinc-600 focus:border-gold focus:outline-none";
+  const actionClass = "px-3 py-1.5 rounded-lg text-xs font-bold border border-zinc-700 bg-zinc-800 text-zinc-300 hover:text-white hover:bg-zinc-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-3">
+          <div className="h-8 w-1 bg-gold rounded-full"></div>
+          <h2 className="text-xl font-bold text-white">Contacts Received</h2>
+          {unreadCount > 0 && <span className="text-xs font-bold text-black bg-gold rounded-full px-2 py-0.5">{unreadCount} new</span>}
+        </div>
+        <button onClick={load} className="text-xs text-zinc-500 hover:text-white transition-colors">Refresh</button>
+      </div>
+
+      {loading ? (
+        <div className="py-8 flex justify-center"><div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-gold"></div></div>
+      ) : error ? (
+        <p className="text-sm text-red-400 text-center py-6">{error}</p>
+      ) : leads.length === 0 ? (
+        <div className="text-center py-12 bg-zinc-900/30 rounded-2xl border border-zinc-800 border-dashed">
+          <p className="text-zinc-500 mb-2">No one has shared their details yet.</p>
+          {!enabled && (
+            <a href={`#/profile/${profileId}/edit`} className="text-gold font-bold hover:underline text-sm">Turn on "Exchange Contact" in Buttons & Links &rarr;</a>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {/* Filters */}
+          <div className="flex flex-col md:flex-row gap-2">
+            <input type="search" value={search} onChange={e => setSearch(e.target.value)} placeholder="Search name, phone, email, company..." className={`${controlClass} flex-1`} />
+            <select value={dateRange} onChange={e => setDateRange(e.target.value as DateRange)} className={controlClass}>
+              {DATE_RANGES.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+            </select>
+            <select value={readFilter} onChange={e => setReadFilter(e.target.value as ReadFilter)} className={controlClass}>
+              <option value="all">All</option>
+              <option value="unread">Unread</option>
+              <option value="read">Read</option>
+            </select>
+          </div>
+          {dateRange === 'custom' && (
+            <div className="flex items-center gap-2 text-xs text-zinc-500">
+              <input type="date" value={customFrom} max={customTo || undefined} onChange={e => setCustomFrom(e.target.value)} className={controlClass} />
+              <span>to</span>
+              <input type="date" value={customTo} min={customFrom || undefined} onChange={e => setCustomTo(e.target.value)} className={controlClass} />
+            </div>
+          )}
+
+          {/* Bulk actions */}
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="flex items-center gap-2 text-xs text-zinc-400 mr-2 cursor-pointer">
+              <input type="checkbox" checked={allVisibleSelected} onChange={toggleSelectAll} disabled={filteredLeads.length === 0} />
+              {selectedLeads.length > 0 ? `${selectedLeads.length} selected` : 'Select all'}
+            </label>
+            <button onClick={() => handleMarkRead(selectedLeads.map(l => l.id), true)} disabled={selectedLeads.length === 0} className={actionClass}>Mark read</button>
+            <button onClick={() => handleMarkRead(selectedLeads.map(l => l.id), false)} disabled={selectedLeads.length === 0} className={actionClass}>Mark unread</button>
+            <button onClick={handleDelete} disabled={selectedLeads.length === 0 || busy} className={`${actionClass} hover:!bg-red-900/40 hover:!text-red-300`}>Delete</button>
+            <div className="flex-1" />
+            <button onClick={handleExportCsv} disabled={targetLeads.length === 0} className={actionClass} title={selectedLeads.length > 0 ? 'Export selected' : 'Export all shown'}>
+              Export CSV ({targetLeads.length})
+            </button>
+            <button onClick={handleExportVCard} disabled={targetLeads.length === 0} className={actionClass} title={selectedLeads.length > 0 ? 'Export selected' : 'Export all shown'}>
+              Export .vcf ({targetLeads.length})
+            </button>
+          </div>
+
+          {filteredLeads.length === 0 ? (
+            <p className="text-sm text-zinc-500 text-center py-8 bg-zinc-900/30 rounded-2xl border border-zinc-800 border-dashed">No contacts match these filters.</p>
+          ) : (
+            <div className="bg-zinc-900 rounded-2xl border border-zinc-800 divide-y divide-zinc-800">
+              {filteredLeads.map(lead => (
+                <div key={lead.id} className={`p-4 flex items-start gap-3 ${lead.is_read ? '' : 'bg-gold/5'}`}>
+                  <input type="checkbox" checked={selectedIds.has(lead.id)} onChange={() => toggleSelected(lead.id)} className="mt-1" />
+                  <div className="flex-1 min-w-0 cursor-pointer" onClick={() => handleExpand(lead)}>
+                    <div className="flex items-center gap-2">
+                      {!lead.is_read && <span className="w-2 h-2 rounded-full bg-gold flex-shrink-0" title="Unread"></span>}
+                      <p className={`text-white truncate ${lead.is_read ? 'font-medium' : 'font-bold'}`}>{lead.name}</p>
+                    </div>
+                    {lead.company && <p className="text-xs text-zinc-400 truncate">{lead.company}</p>}
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 text-sm" onClick={e => e.stopPropagation()}>
+                      {lead.phone && <a href={`tel:${lead.phone}`} className="text-gold hover:underline">{lead.phone}</a>}
+                      {lead.email && <a href={`mailto:${lead.email}`} className="text-gold hover:underline truncate">{lead.email}</a>}
+                    </div>
+                    {lead.note && (
+                      <p className={`text-xs text-zinc-500 mt-2 whitespace-pre-line ${expandedId === lead.id ? '' : 'line-clamp-1'}`}>{lead.note}</p>
+                    )}
+                  </div>
+                  <div className="flex flex-col items-end gap-1">
+                    <span className="text-[10px] text-zinc-600 whitespace-nowrap">{formatDate(lead.created_at)}</span>
+                    <button onClick={() => handleMarkRead([lead.id], !lead.is_read)} className="text-[10px] text-zinc-500 hover:text-white">
+                      {lead.is_read ? 'Mark unread' : 'Mark read'}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LeadsInbox;
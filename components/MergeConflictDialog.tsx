@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { ConflictChoice, FieldConflict } from '../utils/conflicts';
+
+interface MergeConflictDialogProps {
+  conflicts: FieldConflict[];
+  otherLabel?: string; // Who "theirs" is, e.g. 'another device'
+  onResolve: (choices: Record<string, ConflictChoice>) => void;
+}
+
+const Option: React.FC<{ active: boolean; title: string; text: string; onClick: () => void }> = ({ active, title, text, onClick }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`flex-1 min-w-0 text-left p-2 rounded border transition-colors ${active ? 'border-gold bg-gold/10' : 'border-zinc-700 hover:border-zinc-500'}`}
+  >
+    <span className={`block text-[9px] uppercase tracking-wide font-bold mb-0.5 ${active ? 'text-gold' : 'text-zinc-500'}`}>{title}</span>
+    <span className={`block text-xs break-words line-clamp-3 ${text ? 'text-zinc-200' : 'text-zinc-600 italic'}`}>{text || 'Not set'}</span>
+  </button>
+);
+
+/**
+ * Shown when a save finds the same fields were changed somewhere else since
+ * this screen loaded. Everything that didn't clash is merged already.
+ */
+const MergeConflictDialog: React.FC<MergeConflictDialogProps> = ({ conflicts, otherLabel = 'another tab or device', onResolve }) => {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>(() =>
+    Object.fromEntries(conflicts.map(c => [c.field, 'mine' as ConflictChoice]))
+  );
+
+  const setAll = (choice: ConflictChoice) => setChoices(Object.fromEntries(conflicts.map(c => [c.field, choice])));
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="w-full max-w-2xl max-h-[85vh] bg-zinc-900 rounded-xl border border-zinc-700 shadow-2xl overflow-hidden flex flex-col">
+        <div className="px-4 py-3 border-b border-zinc-800">
+          <h3 className="text-sm font-bold text-white">Changed in {otherLabel}</h3>
+          <p className="text-[10px] text-zinc-400 mt-0.5">
+            {conflicts.length === 1 ? 'This was' : 'These were'} edited in both places since you opened this page. Other changes have been combined automatically - pick which version to keep here.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {conflicts.map(c => (
+            <div key={c.field}>
+              <p className="text-xs font-bold text-zinc-300 mb-1">{c.label}</p>
+              <div className="flex gap-2">
+                <Option active={choices[c.field] === 'mine'} title="Mine (this screen)" text={c.mine} onClick={() => setChoices(prev => ({ ...prev, [c.field]: 'mine' }))} />
+                <Option active={choices[c.field] === 'theirs'} title={`From ${otherLabel}`} text={c.theirs} onClick={() => setChoices(prev => ({ ...prev, [c.field]: 'theirs' }))} />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="px-4 py-3 border-t border-zinc-800 flex items-center justify-between gap-3">
+          <div className="flex gap-3">
+            <button type="button" onClick={() => setAll('mine')} className="text-[10px] text-zinc-400 hover:text-white">Keep all mine</button>
+            <button type="button" onClick={() => setAll('theirs')} className="text-[10px] text-zinc-400 hover:text-white">Take all theirs</button>
+          </div>
+          <button
+            type="button"
+            onClick={() => onResolve(choices)}
+            className="text-xs font-bold px-4 py-2 rounded bg-gold text-black hover:bg-gold/90 transition-colors"
+          >
+            Use Merged Version
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeConflictDialog;
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { PIN_PATTERN } from '../utils/visibility';
+
+interface PinGateProps {
+  status: 'pin_required' | 'pin_invalid' | 'locked';
+  onSubmit: (pin: string) => Promise<void>;
+}
+
+const PinGate: React.FC<PinGateProps> = ({ status, onSubmit }) => {
+  const [pin, setPin] = useState('');
+  const [checking, setChecking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!PIN_PATTERN.test(pin)) return;
+    setChecking(true);
+    try {
+      await onSubmit(pin);
+    } finally {
+      setChecking(false);
+      setPin('');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-zinc-950 px-4 text-center">
+      <div className="w-16 h-16 bg-zinc-900 rounded-full flex items-center justify-center mb-4">
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-gold" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" /></svg>
+      </div>
+      <h2 className="text-xl font-bold text-white mb-2">Private Profile</h2>
+      <p className="text-zinc-400 mb-6 max-w-md">Enter the PIN you were given to view this card.</p>
+
+      <form onSubmit={handleSubmit} className="w-full max-w-xs space-y-3">
+        <input
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          autoFocus
+          value={pin}
+          onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+          placeholder="••••"
+          disabled={status === 'locked' || checking}
+          className="w-full bg-zinc-900 border border-zinc-700 rounded-xl px-4 py-3 text-center text-2xl tracking-[0.5em] text-white focus:outline-none focus:border-gold disabled:opacity-50"
+        />
+        {status === 'pin_invalid' && <p className="text-sm text-red-400">Incorrect PIN. Please try again.</p>}
+        {status === 'locked' && <p className="text-sm text-red-400">Too many attempts. Please try again in 15 minutes.</p>}
+        <button
+          type="submit"
+          disabled={!PIN_PATTERN.test(pin) || status === 'locked' || checking}
+          className="w-full py-3 rounded-xl font-bold bg-gold text-black hover:bg-gold-600 transition-colors disabled:opacity-50"
+        >
+          {checking ? 'Checking...' : 'Unlock'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default PinGate;
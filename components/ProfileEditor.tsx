@@ -1,29 +1,61 @@
 
-import React, { useEffect, useState, useRef, useCallback } from 'react';
+import React, { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
+import { Reorder } from 'framer-motion';
 import { supabase, getSupabase } from '../lib/supabase';
-import { Profile, ProfileUpdate, ProfileInsert, CustomButtonElement, ButtonStyle, BackgroundSettings } from '../types';
-import { BUCKET_BACKGROUND_PHOTOS, BUCKET_PROFILE_PHOTOS, BUCKET_CARD_IMAGES, FONTS, SHAPES, SOCIAL_ICONS } from '../constants';
+import { Profile, ProfileUpdate, ProfileInsert, CustomButtonElement, ButtonStyle, BackgroundSettings, PostalAddress, PhoneEntry, EmailEntry, LeadCaptureSettings, ProfileTheme, ContentBlockType, BlockData, ProfileVisibility } from '../types';
+import { BUCKET_BACKGROUND_PHOTOS, BUCKET_PROFILE_PHOTOS, BUCKET_CARD_IMAGES, FONTS, SHAPES, SOCIAL_ICONS, PHONE_TYPES, EMAIL_TYPES, DEFAULT_LEAD_CAPTURE, THEME_PRESETS } from '../constants';
 import { useToast } from '../context/ToastContext';
 import { useProfile } from '../context/ProfileContext';
 import PublicProfile from './PublicProfile';
 import PreviewModeToggle from './PreviewModeToggle';
+import BlockEditorPanel from './BlockEditorPanel';
+import ScheduleEditor from './ScheduleEditor';
+import ScheduleBadge from './ScheduleBadge';
+import TranslationEditor from './TranslationEditor';
+import AccessibilityPanel from './AccessibilityPanel';
+import VersionHistoryPanel from './VersionHistoryPanel';
+import MergeConflictDialog from './MergeConflictDialog';
+import ImageCropper from './ImageCropper';
+import SortableItem from './SortableItem';
 import { getPreferredPreviewMode, setPreferredPreviewMode } from '../utils/deviceDetection';
+import { importContactFile, detectSocialPreset } from '../utils/contactImport';
+import { getProfileUrl, getShareUrl } from '../utils/profileUrl';
+import { applyTheme, themeFromProfile, isThemeApplied } from '../utils/themes';
+import { BLOCK_TYPES, createBlock, isContentBlock, getBlockLabel } from '../utils/blocks';
+import { VISIBILITY_OPTIONS, PIN_PATTERN, setProfilePin, hasProfilePin } from '../utils/visibility';
+import { countMissing, getDefaultLocale } from '../utils/translations';
+import { ContrastCheck } from '../utils/contrast';
+import { useUndoHistory } from '../utils/undoHistory';
+import { ProfileSnapshot, AUTOSAVE_CHECKPOINT_MS, saveVersion, toSnapshot, isDerivedField, getFieldLabel, describeField } from '../utils/versions';
+import { hasUnpublishedChanges, withDraft, toDraft, getDraft, saveDraft, clearPublishedDraft } from '../utils/drafts';
+import { IMAGE_PRESETS, ImageCrop, ProcessedImage, processImage, needsProcessing, getImagePaths, getThumbnailUrl } from '../utils/imageProcessing';
+import { ConflictChoice, FieldConflict, threeWayMerge, updateProfileAtRevision, fetchLatestProfile } from '../utils/conflicts';
+import { SLUG_AVAILABILITY_MESSAGES, SlugHistoryEntry, sanitizeSlug, useSlugAvailability, getSlugHistory, isSlugConflict } from '../utils/slugs';
+import { HONORIFICS, EMPTY_ADDRESS, StructuredName, composeFullName, splitFullName, getStructuredName, getAddress, formatAddress, getPhones, getEmails, getPreferred } from '../utils/profileFormat';
 
 // Helper to generate IDs
 const uuid = () => Math.random().toString(36).substring(2, 9);
 
 const INITIAL_STATE: Partial<Profile> = {
     full_name: '',
+    honorific: '',
+    given_name: '',
+    middle_name: '',
+    family_name: '',
+    job_title: '',
     profile_slug: '',
     company: '',
     bio: '',
     phone: '',
     email: '',
+    phones: [],
+    emails: [],
     website: 'https://www.canopycorp.in',
     delivery_address_url: '',
     gst_number: '',
     billing_address: '',
+    address: EMPTY_ADDRESS,
     storage_folder_path: null,
     custom_button_text: '', // Main CTA text
     custom_button_url: '', // Main CTA URL (for Standies)
@@ -36,6 +68,8 @@ const INITIAL_STATE: Partial<Profile> = {
     },
     social_links: {}, // Legacy
     custom_elements: [], // All elements
+    custom_themes: [],
+    lead_capture: DEFAULT_LEAD_CAPTURE,
     profile_photo_url: null,
     background_photo_url: 'https://jotjgsgadnwosofaonso.supabase.co/storage/v1/object/public/background_photos/templates/NFC_standing_cover.png',
     background_settings: { zoom: 1, offsetX: 50, offsetY: 50 },
@@ -80,32 +114,68 @@ const SOCIAL_PRESETS = [
     { key: 'custom', label: 'Custom', color: '#888888' },
 ];
 
+// Everything the editor itself writes - the fields a concurrent save is merged over
+const editableContent = (profile: Partial<Profile>): ProfileSnapshot => ({
+    ...toSnapshot(profile),
+    profile_slug: profile.profile_slug,
+    visibility: profile.visibility,
+});
+
 const ProfileEditor: React.FC = () => {
     const { id } = useParams<{ id: string }>();
     const navigate = useNavigate();
     const { showToast } = useToast();
     const { profile, refreshProfile } = useProfile();
 
-    const [formData, setFormData] = useState<Partial<Profile>>(INITIAL_STATE);
+    // Every edit goes through the undo history; autosave persists whatever is current, including undone state
+    const {
+        state: formData,
+        set: setFormData,
+        replace: replaceFormData,
+        reset: resetFormData,
+        undo,
+        redo,
+        canUndo,
+        canRedo,
+    } = useUndoHistory<Partial<Profile>>(INITIAL_STATE);
     const [loading, setLoading] = useState(false);
     const [activeTab, setActiveTab] = useState<'DETAILS' | 'LINKS' | 'APPEARANCE' | null>('DETAILS');
     const [showSocialDropdown, setShowSocialDropdown] = useState(false);
+    const [showBlockDropdown, setShowBlockDropdown] = useState(false);
     const [isLinksInteractive, setIsLinksInteractive] = useState(false); // Toggle for preview interactivity
 
     // Editing state
     const [editingId, setEditingId] = useState<string | null>(null);
 
-    const [profilePhoto, setProfilePhoto] = useState<File | null>(null);
-    const [bgPhoto, setBgPhoto] = useState<File | null>(null);
+    const [profilePhoto, setProfilePhoto] = useState<ProcessedImage | null>(null);
+    const [bgPhoto, setBgPhoto] = useState<ProcessedImage | null>(null);
+    const [cropFile, setCropFile] = useState<File | null>(null); // Profile photo waiting in the cropper
     const [backgroundTemplates, setBackgroundTemplates] = useState<{ name: string; url: string; }[]>([]);
     const [previewMode, setPreviewMode] = useState<'mobile' | 'desktop'>(getPreferredPreviewMode());
     const [showBusinessDetails, setShowBusinessDetails] = useState(false);
+    const [showTranslations, setShowTranslations] = useState(false);
+    const [newThemeName, setNewThemeName] = useState('');
+    const [hasPin, setHasPin] = useState<boolean | null>(null);
+    const [pinInput, setPinInput] = useState('');
+    const [savingPin, setSavingPin] = useState(false);
+    const [savedSlug, setSavedSlug] = useState<string | null>(null);
+    const [slugHistory, setSlugHistory] = useState<SlugHistoryEntry[]>([]);
+    const [showHistory, setShowHistory] = useState(false);
+    const [hasDraft, setHasDraft] = useState(false);
+    const [publishing, setPublishing] = useState(false);
 
     const debounceTimeout = useRef<number | null>(null);
     const isSavingRef = useRef(false);
     const hasMounted = useRef(false);
     const mountedRef = useRef(true);
     const hasPendingChanges = useRef(false);
+    const lastCheckpointRef = useRef(0); // When autosave last left a version behind
+    const publishedRef = useRef<ProfileSnapshot>({}); // What visitors currently see, to tell if the draft differs
+    const publishPendingRef = useRef(false);
+    // The revision this editor last saw and what it held, the base for merging someone else's save
+    const serverRef = useRef<{ revision: number | null; content: ProfileSnapshot }>({ revision: null, content: {} });
+    const [mergeConflict, setMergeConflict] = useState<{ conflicts: FieldConflict[]; theirs: ProfileSnapshot; taken: string[]; publish: boolean } | null>(null);
+    const mergeOpenRef = useRef(false); // Read by queued saves, which run before the dialog state has rendered
 
     const initializedRef = useRef<string | null>(null);
 
@@ -140,16 +210,19 @@ const ProfileEditor: React.FC = () => {
         if (id && profile && profile.id === id) {
             // Prevent infinite loop: Only initialize if we haven't initialized this specific profile ID yet
             if (initializedRef.current !== id) {
-                initializeForm(profile);
                 initializedRef.current = id;
+                getDraft(id)
+                    .then(draft => { if (mountedRef.current) initializeForm(profile, draft); })
+                    .catch(err => console.error('Draft fetch failed:', err));
             }
         } else if (id) {
             // If context doesn't have it (e.g. direct link or stale), fetch specific
             const fetchSpecific = async () => {
                 const client = getSupabase();
                 const { data } = await client.from('profiles').select('*').eq('id', id).maybeSingle();
+                const draft = data ? await getDraft(id) : null;
                 if (data && mountedRef.current) {
-                    initializeForm(data);
+                    initializeForm(data, draft);
                     initializedRef.current = id;
                 }
             };
@@ -161,11 +234,16 @@ const ProfileEditor: React.FC = () => {
             // New profile
             getSupabase().auth.getUser().then(({ data: { user } }) => {
                 if (user && mountedRef.current) {
-                    setFormData(prev => ({
+                    const fullName = user.user_metadata?.full_name || '';
+                    const phone = user.user_metadata?.phone || '';
+                    replaceFormData(prev => ({
                         ...prev,
-                        full_name: user.user_metadata?.full_name || prev.full_name,
-                        phone: user.user_metadata?.phone || prev.phone,
+                        ...(fullName ? splitFullName(fullName) : {}),
+                        full_name: fullName || prev.full_name,
+                        phone: phone || prev.phone,
                         email: user.email || prev.email,
+                        phones: phone ? [{ id: uuid(), number: phone, type: 'cell', preferred: true }] : prev.phones,
+                        emails: user.email ? [{ id: uuid(), address: user.email, type: 'work', preferred: true }] : prev.emails,
                         gst_number: '',
                         billing_address: ''
                     }));
@@ -174,7 +252,8 @@ const ProfileEditor: React.FC = () => {
         }
     }, [id, profile]);
 
-    const initializeForm = (data: Profile) => {
+    // A database row as the editor's form holds it, before any draft is laid over it
+    const toEditorForm = (data: Profile): Partial<Profile> => {
         let customElements: CustomButtonElement[] = data.custom_elements || [];
         if (customElements.length === 0 && data.social_links) {
             const sl = data.social_links;
@@ -186,13 +265,29 @@ const ProfileEditor: React.FC = () => {
             customElements = newElements;
         }
 
-        setFormData({
+        return {
             ...INITIAL_STATE,
             ...data,
+            // Legacy rows only have full_name / billing_address - derive the structured fields
+            ...getStructuredName(data),
+            address: getAddress(data),
+            phones: getPhones(data),
+            emails: getEmails(data),
             custom_button_style: data.custom_button_style || INITIAL_STATE.custom_button_style,
             custom_elements: customElements,
             background_settings: data.background_settings || INITIAL_STATE.background_settings,
-        });
+            lead_capture: { ...DEFAULT_LEAD_CAPTURE, ...(data.lead_capture || {}) },
+        };
+    };
+
+    const initializeForm = (data: Profile, draft: ProfileSnapshot | null) => {
+        const published = toEditorForm(data);
+        const editing = withDraft(published, draft);
+        publishedRef.current = toSnapshot(published);
+        serverRef.current = { revision: data.revision ?? null, content: editableContent(editing) };
+        resetFormData(editing);
+        setHasDraft(hasUnpublishedChanges(draft));
+        setSavedSlug(data.profile_slug || null);
     };
 
     const createButton = (subtype: string, label: string, url: string): CustomButtonElement => {
@@ -221,6 +316,109 @@ const ProfileEditor: React.FC = () => {
         setFormData(prev => ({ ...prev, [name]: value }));
     };
 
+    // Editing any name part recomposes the display name
+    const updateNamePart = (field: keyof StructuredName, value: string) => {
+        setFormData(prev => {
+            const next = { ...prev, [field]: value };
+            return { ...next, full_name: composeFullName(getStructuredName(next)) };
+        });
+    };
+
+    // billing_address is kept as the formatted copy for older readers
+    const updateAddress = (field: keyof PostalAddress, value: string) => {
+        setFormData(prev => {
+            const address = { ...EMPTY_ADDRESS, ...prev.address, [field]: value };
+            return { ...prev, address, billing_address: formatAddress(address) };
+        });
+    };
+
+    // phone / email mirror the preferred entry for older readers
+    const withContactMirrors = (next: Partial<Profile>): Partial<Profile> => ({
+        ...next,
+        phone: getPreferred(next.phones || [])?.number || '',
+        email: getPreferred(next.emails || [])?.address || '',
+    });
+
+    // All the copies kept for older readers, after fields were merged in from elsewhere
+    const withMirrors = (next: Partial<Profile>): Partial<Profile> => withContactMirrors({
+        ...next,
+        full_name: composeFullName(getStructuredName(next)),
+        billing_address: formatAddress(getAddress(next)),
+    });
+
+    const resolveMergeConflict = (choices: Record<string, ConflictChoice>) => {
+        if (!mergeConflict) return;
+        const { theirs, taken, publish } = mergeConflict;
+        const fromTheirs = [...taken, ...Object.keys(choices).filter(field => choices[field] === 'theirs')];
+        mergeOpenRef.current = false;
+        setMergeConflict(null);
+        // Always a new object, so autosave writes the merged version even when every pick was "mine"
+        setFormData(prev => withMirrors({ ...prev, ...Object.fromEntries(fromTheirs.map(field => [field, theirs[field as keyof Profile]])) }));
+        showToast(publish ? 'Merged. Press Publish again to make it live.' : 'Merged - saving the combined version.', 'info');
+    };
+
+    const addPhone = () => {
+        setFormData(prev => {
+            const phones = prev.phones || [];
+            return withContactMirrors({ ...prev, phones: [...phones, { id: uuid(), number: '', type: 'cell', preferred: phones.length === 0 }] });
+        });
+    };
+
+    const updatePhone = (phoneId: string, changes: Partial<PhoneEntry>) => {
+        setFormData(prev => withContactMirrors({
+            ...prev,
+            phones: (prev.phones || []).map(p => {
+                if (p.id === phoneId) return { ...p, ...changes };
+                // Only one preferred entry
+                return changes.preferred ? { ...p, preferred: false } : p;
+            })
+        }));
+    };
+
+    const removePhone = (phoneId: string) => {
+        setFormData(prev => {
+            const phones = (prev.phones || []).filter(p => p.id !== phoneId);
+            if (phones.length > 0 && !phones.some(p => p.preferred)) phones[0] = { ...phones[0], preferred: true };
+            return withContactMirrors({ ...prev, phones });
+        });
+    };
+
+    const addEmail = () => {
+        setFormData(prev => {
+            const emails = prev.emails || [];
+            return withContactMirrors({ ...prev, emails: [...emails, { id: uuid(), address: '', type: 'work', preferred: emails.length === 0 }] });
+        });
+    };
+
+    const updateEmail = (emailId: string, changes: Partial<EmailEntry>) => {
+        setFormData(prev => withContactMirrors({
+            ...prev,
+            emails: (prev.emails || []).map(e => {
+                if (e.id === emailId) return { ...e, ...changes };
+                return changes.preferred ? { ...e, preferred: false } : e;
+            })
+        }));
+    };
+
+    const removeEmail = (emailId: string) => {
+        setFormData(prev => {
+            const emails = (prev.emails || []).filter(e => e.id !== emailId);
+            if (emails.length > 0 && !emails.some(e => e.preferred)) emails[0] = { ...emails[0], preferred: true };
+            return withContactMirrors({ ...prev, emails });
+        });
+    };
+
+    const updateLeadCapture = (field: keyof LeadCaptureSettings, value: any) => {
+        setFormData(prev => ({
+            ...prev,
+            lead_capture: {
+                ...DEFAULT_LEAD_CAPTURE,
+                ...prev.lead_capture,
+                [field]: value
+            }
+        }));
+    };
+
     const updateMainButtonStyle = (field: keyof ButtonStyle, value: any) => {
         setFormData(prev => ({
             ...prev,
@@ -231,6 +429,30 @@ const ProfileEditor: React.FC = () => {
         }));
     };
 
+    // Readability fixes always change the foreground so the chosen backgrounds/brand colours stay
+    const handleContrastFix = (check: ContrastCheck, color: string) => {
+        if (check.id === 'text') setFormData(prev => ({ ...prev, card_text_color: color }));
+        else if (check.id === 'main') updateMainButtonStyle('textColor', color);
+        else updateElement(check.id, 'style.textColor', color);
+    };
+
+    const handleApplyTheme = (theme: ProfileTheme) => {
+        setFormData(prev => ({ ...prev, ...applyTheme(prev, theme) }));
+        showToast(`Applied "${theme.name}"`, 'success');
+    };
+
+    const handleSaveTheme = () => {
+        const name = newThemeName.trim();
+        if (!name) return;
+        setFormData(prev => ({ ...prev, custom_themes: [...(prev.custom_themes || []), themeFromProfile(prev, name, uuid())] }));
+        setNewThemeName('');
+        showToast(`Saved "${name}" to your themes`, 'success');
+    };
+
+    const handleDeleteTheme = (themeId: string) => {
+        setFormData(prev => ({ ...prev, custom_themes: (prev.custom_themes || []).filter(t => t.id !== themeId) }));
+    };
+
     const updateBackgroundSettings = (field: keyof BackgroundSettings, value: number) => {
         setFormData(prev => ({
             ...prev,
@@ -250,6 +472,74 @@ const ProfileEditor: React.FC = () => {
         setEditingId(newBtn.id);
     };
 
+    // PIN state lives server-side (profile_pins); only ask once the mode is in use
+    useEffect(() => {
+        if (!id || formData.visibility !== 'pin' || hasPin !== null) return;
+        hasProfilePin(id).then(setHasPin).catch(err => console.error('PIN status check failed:', err));
+    }, [id, formData.visibility, hasPin]);
+
+    const slugStatus = useSlugAvailability(formData.profile_slug || '', savedSlug, id);
+    const slugBlocked = slugStatus === 'taken' || slugStatus === 'reserved' || slugStatus === 'invalid';
+    // Read by handleSubmit, so the async check doesn't have to be one of its dependencies
+    const slugHoldRef = useRef<string | null>(null);
+    slugHoldRef.current = slugBlocked ? savedSlug : null;
+
+    // Old slugs that still redirect here - refreshed whenever a rename is saved
+    useEffect(() => {
+        if (!id) return;
+        getSlugHistory(id).then(setSlugHistory).catch(err => console.error('Slug history fetch failed:', err));
+    }, [id, savedSlug]);
+
+    const setVisibility = (visibility: ProfileVisibility) => {
+        setFormData(prev => ({ ...prev, visibility }));
+    };
+
+    const handleSavePin = async (pin: string | null) => {
+        if (!id) return;
+        setSavingPin(true);
+        try {
+            await setProfilePin(id, pin);
+            setHasPin(pin !== null);
+            setPinInput('');
+            showToast(pin ? 'PIN saved' : 'PIN removed', 'success');
+        } catch (err: any) {
+            showToast(err.message, 'error');
+        } finally {
+            setSavingPin(false);
+        }
+    };
+
+    const addBlock = (type: ContentBlockType) => {
+        const block = createBlock(type, uuid());
+        setFormData(prev => ({
+            ...prev,
+            custom_elements: [...(prev.custom_elements || []), block]
+        }));
+        setEditingId(block.id);
+        setShowBlockDropdown(false);
+    };
+
+    const updateBlockData = (id: string, patch: Partial<BlockData>) => {
+        setFormData(prev => ({
+            ...prev,
+            custom_elements: prev.custom_elements?.map(el => (el.id === id ? { ...el, data: { ...el.data, ...patch } } : el))
+        }));
+    };
+
+    const uploadBlockImage = async (file: File): Promise<string | null> => {
+        try {
+            const client = getSupabase();
+            const path = `blocks/${uuid()}_${file.name.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
+            const { error } = await client.storage.from(BUCKET_CARD_IMAGES).upload(path, file);
+            if (error) throw error;
+            return client.storage.from(BUCKET_CARD_IMAGES).getPublicUrl(path).data.publicUrl;
+        } catch (err) {
+            console.error('Block image upload failed:', err);
+            showToast(`Could not upload ${file.name}`, 'error');
+            return null;
+        }
+    };
+
     const addSocialLink = (subtype: string) => {
         const preset = SOCIAL_PRESETS.find(p => p.key === subtype);
         if (!preset) return;
@@ -284,6 +574,20 @@ const ProfileEditor: React.FC = () => {
         if (editingId === id) setEditingId(null);
     };
 
+    // The current state goes into the history first, so a restore can itself be undone later
+    const restoreVersion = async (snapshot: ProfileSnapshot) => {
+        if (!id) return;
+        try {
+            await saveVersion(id, formData, 'restore');
+        } catch (err) {
+            console.error('Pre-restore snapshot failed:', err);
+            showToast('Could not back up your current version, so nothing was restored.', 'error');
+            throw err;
+        }
+        setFormData(prev => ({ ...prev, ...snapshot }));
+        showToast('Version restored', 'success');
+    };
+
     const moveElement = (id: string, direction: -1 | 1) => {
         const elements = [...(formData.custom_elements || [])];
         const index = elements.findIndex(e => e.id === id);
@@ -292,16 +596,19 @@ const ProfileEditor: React.FC = () => {
         const element = elements[index];
         let targetIndex = -1;
 
+        // Social icons reorder among themselves; buttons and blocks share one stack
+        const sameGroup = (other: CustomButtonElement) => (other.type === 'social') === (element.type === 'social');
+
         if (direction === -1) {
             for (let i = index - 1; i >= 0; i--) {
-                if (elements[i].type === element.type) {
+                if (sameGroup(elements[i])) {
                     targetIndex = i;
                     break;
                 }
             }
         } else {
             for (let i = index + 1; i < elements.length; i++) {
-                if (elements[i].type === element.type) {
+                if (sameGroup(elements[i])) {
                     targetIndex = i;
                     break;
                 }
@@ -315,51 +622,154 @@ const ProfileEditor: React.FC = () => {
         }
     };
 
-    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>, type: 'profile' | 'bg' | 'custom_icon', elementId?: string) => {
-        if (e.target.files && e.target.files[0]) {
-            const file = e.target.files[0];
-            const previewUrl = URL.createObjectURL(file);
+    // Drag-and-drop hands back one group's ids in their new order; they go back
+    // into the slots that group already holds, so the other group stays put
+    const reorderElements = (orderedIds: string[]) => {
+        setFormData(prev => {
+            const elements = [...(prev.custom_elements || [])];
+            const slots = elements.map((e, i) => (orderedIds.includes(e.id) ? i : -1)).filter(i => i !== -1);
+            if (slots.length !== orderedIds.length) return prev;
+
+            const byId = new Map(elements.map(e => [e.id, e]));
+            slots.forEach((slot, i) => { elements[slot] = byId.get(orderedIds[i])!; });
+            if (elements.every((e, i) => e === prev.custom_elements?.[i])) return prev;
+            return { ...prev, custom_elements: elements };
+        });
+    };
+
+    // Every picked image is cropped / resized / re-encoded before it's shown or uploaded
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>, type: 'profile' | 'bg' | 'custom_icon', elementId?: string) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow picking the same file again
+        if (!file) return;
+        if (!file.type.startsWith('image/')) {
+            showToast('Please choose an image file.', 'error');
+            return;
+        }
 
-            if (type === 'profile') {
-                setProfilePhoto(file);
-                setFormData(prev => ({ ...prev, profile_photo_url: previewUrl }));
-            } else if (type === 'bg') {
-                setBgPhoto(file);
-                setFormData(prev => ({ ...prev, background_photo_url: previewUrl }));
+        // The profile photo goes through the cropper first, see handleCrop
+        if (type === 'profile') {
+            setCropFile(file);
+            return;
+        }
+
+        try {
+            if (type === 'bg') {
+                const image = await processImage(file, IMAGE_PRESETS.cover);
+                setBgPhoto(image);
+                setFormData(prev => ({ ...prev, background_photo_url: URL.createObjectURL(image.file) }));
             } else if (type === 'custom_icon' && elementId) {
-                const uploadIcon = async () => {
-                    const client = getSupabase();
-                    const { data: { user } } = await client.auth.getUser();
-                    if (!user) return;
-                    const path = `icons/${uuid()}_${file.name}`;
-                    await client.storage.from(BUCKET_CARD_IMAGES).upload(path, file);
-                    const { data: { publicUrl } } = client.storage.from(BUCKET_CARD_IMAGES).getPublicUrl(path);
-                    updateElement(elementId, 'iconUrl', publicUrl);
-                };
-                uploadIcon();
+                const client = getSupabase();
+                const { data: { user } } = await client.auth.getUser();
+                if (!user) return;
+                const icon = needsProcessing(file) ? (await processImage(file, IMAGE_PRESETS.icon)).file : file;
+                const path = `icons/${uuid()}_${icon.name}`;
+                const { error } = await client.storage.from(BUCKET_CARD_IMAGES).upload(path, icon);
+                if (error) throw error;
+                const { data: { publicUrl } } = client.storage.from(BUCKET_CARD_IMAGES).getPublicUrl(path);
+                updateElement(elementId, 'iconUrl', publicUrl);
+            }
+        } catch (err: any) {
+            console.error('Image upload failed:', err);
+            showToast(err.message || 'Could not use that image.', 'error');
+        }
+    };
+
+    const handleCrop = async (crop: ImageCrop) => {
+        const file = cropFile;
+        setCropFile(null);
+        if (!file) return;
+        try {
+            const image = await processImage(file, IMAGE_PRESETS.profile, crop);
+            setProfilePhoto(image);
+            setFormData(prev => ({ ...prev, profile_photo_url: URL.createObjectURL(image.file) }));
+        } catch (err: any) {
+            console.error('Profile photo processing failed:', err);
+            showToast(err.message || 'Could not use that image.', 'error');
+        }
+    };
+
+    const handleContactImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow re-importing the same file
+        if (!file) return;
+
+        try {
+            const contact = await importContactFile(file);
+            const existingUrls = new Set((formData.custom_elements || []).map(el => el.url));
+            const imported: CustomButtonElement[] = [];
+
+            contact.urls.forEach(({ url, label }) => {
+                if (existingUrls.has(url)) return;
+                existingUrls.add(url);
+                const key = detectSocialPreset(url, label);
+                const preset = SOCIAL_PRESETS.find(p => p.key === key) || SOCIAL_PRESETS.find(p => p.key === 'website')!;
+                imported.push(createButton(preset.key, preset.label, url));
+            });
+
+            const fields = (['full_name', 'honorific', 'given_name', 'middle_name', 'family_name', 'job_title', 'company', 'website', 'billing_address'] as const)
+                .filter(field => contact[field]);
+
+            setFormData(prev => {
+                const next: Partial<Profile> = { ...prev, custom_elements: [...(prev.custom_elements || []), ...imported] };
+                fields.forEach(field => { next[field] = contact[field]!; });
+                if (contact.full_name && !contact.given_name && !contact.family_name) {
+                    Object.assign(next, splitFullName(contact.full_name));
+                }
+                if (contact.address) {
+                    next.address = contact.address;
+                } else if (contact.billing_address) {
+                    next.address = { ...EMPTY_ADDRESS, street: contact.billing_address };
+                }
+                // Imported numbers replace the list; the file's preferred entry wins
+                if (contact.phones.length > 0) next.phones = contact.phones.map(p => ({ ...p, id: uuid() }));
+                if (contact.emails.length > 0) next.emails = contact.emails.map(e => ({ ...e, id: uuid() }));
+                return withContactMirrors(next);
+            });
+            if (contact.billing_address) setShowBusinessDetails(true);
+
+            const fieldCount = fields.length + (contact.phones.length > 0 ? 1 : 0) + (contact.emails.length > 0 ? 1 : 0);
+
+            if (fieldCount === 0 && imported.length === 0) {
+                showToast('No contact details found in that file.', 'info');
+            } else {
+                showToast(`Imported ${fieldCount} field${fieldCount === 1 ? '' : 's'} and ${imported.length} link${imported.length === 1 ? '' : 's'}.`, 'success');
             }
+        } catch (err: any) {
+            console.error('Contact import failed', err);
+            showToast(err.message || 'Could not read contact file.', 'error');
         }
     };
 
-    const uploadFile = async (file: File, bucket: string, folderPath: string, baseFileName: string) => {
+    // Thumbnail first, so a stored image never points at a missing one
+    const uploadFile = async (image: ProcessedImage, bucket: string, folderPath: string, baseFileName: string) => {
         const client = getSupabase();
-        const fileExt = file.name.split('.').pop();
-        const filePath = `${folderPath}/${baseFileName}_${Date.now()}.${fileExt}`;
-        await client.storage.from(bucket).upload(filePath, file);
-        return client.storage.from(bucket).getPublicUrl(filePath).data.publicUrl;
+        const paths = getImagePaths(`${folderPath}/${baseFileName}_${Date.now()}`, image);
+        if (image.thumbnail && paths.thumb) {
+            const { error } = await client.storage.from(bucket).upload(paths.thumb, image.thumbnail);
+            if (error) throw error;
+        }
+        const { error } = await client.storage.from(bucket).upload(paths.full, image.file);
+        if (error) throw error;
+        return client.storage.from(bucket).getPublicUrl(paths.full).data.publicUrl;
     };
 
     const saveStateRef = useRef<'IDLE' | 'SAVING' | 'PENDING_SAVE'>('IDLE');
 
-    const handleSubmit = useCallback(async (isAutosave = false) => {
+    const handleSubmit = useCallback(async (isAutosave = false, publish = false) => {
         // If already saving, queue a pending save (coalescing multiple autosaves into one retry)
         if (saveStateRef.current === 'SAVING') {
             saveStateRef.current = 'PENDING_SAVE';
+            if (publish) publishPendingRef.current = true;
             return;
         }
 
+        // Nothing is written until the user has picked through the merge dialog
+        if (mergeOpenRef.current) return;
+
         saveStateRef.current = 'SAVING';
         if (!isAutosave) setLoading(true);
+        if (publish) setPublishing(true);
 
         try {
             const client = getSupabase();
@@ -372,14 +782,31 @@ const ProfileEditor: React.FC = () => {
                 folderPath = `${baseName}_${user.id.substring(0, 5)}`;
             }
 
+            // Only upload a picked photo while its blob: preview is still shown (it may have been undone)
             const updates: any = {};
-            if (profilePhoto) updates.profile_photo_url = await uploadFile(profilePhoto, BUCKET_PROFILE_PHOTOS, folderPath, 'pfp');
-            if (bgPhoto) updates.background_photo_url = await uploadFile(bgPhoto, BUCKET_BACKGROUND_PHOTOS, folderPath, 'bg');
+            const isPreview = (url?: string | null) => Boolean(url?.startsWith('blob:'));
+            if (profilePhoto && isPreview(formData.profile_photo_url)) updates.profile_photo_url = await uploadFile(profilePhoto, BUCKET_PROFILE_PHOTOS, folderPath, 'pfp');
+            if (bgPhoto && isPreview(formData.background_photo_url)) updates.background_photo_url = await uploadFile(bgPhoto, BUCKET_BACKGROUND_PHOTOS, folderPath, 'bg');
 
             const finalData = { ...formData, ...updates };
+            // A slug someone else holds would fail the whole save - keep the saved one until it's fixed
+            if (id && slugHoldRef.current) {
+                finalData.profile_slug = slugHoldRef.current;
+                if (!isAutosave) showToast("Profile link not changed - that link isn't available.", 'error');
+            }
 
             if (mountedRef.current) {
-                setFormData(prev => ({ ...prev, ...updates, storage_folder_path: folderPath }));
+                // Swap the preview URL in every undo snapshot too, so undo/redo never brings back a dead blob: URL
+                const previewUrls = { profile_photo_url: formData.profile_photo_url, background_photo_url: formData.background_photo_url };
+                replaceFormData(prev => {
+                    const next = { ...prev, storage_folder_path: folderPath };
+                    (['profile_photo_url', 'background_photo_url'] as const).forEach(field => {
+                        if (updates[field] && prev[field] === previewUrls[field]) next[field] = updates[field];
+                    });
+                    // Keep the same object when nothing changed so autosave isn't re-triggered
+                    const changed = (Object.keys(next) as (keyof Profile)[]).some(key => next[key] !== prev[key]);
+                    return changed ? next : prev;
+                });
             }
 
             if (!finalData.profile_slug) {
@@ -390,20 +817,66 @@ const ProfileEditor: React.FC = () => {
             const payload = { ...finalData, storage_folder_path: folderPath, updated_at: new Date().toISOString() };
 
             if (id) {
-                console.log("Updating profile:", id, "Payload:", payload); // DEBUG
-                // Add .select() to return the updated row for verification
-                const { data, error } = await client.from('profiles').update(payload as ProfileUpdate).eq('id', id).select().single();
+                // Edits only touch the draft; Publish is what writes the columns visitors see.
+                // Drafts leave updated_at alone - it versions the share image and the offline copy.
+                // Neither writes the card design, so a publish can't undo a design saved meanwhile.
+                // Both only land while the row is still at the revision this editor last saw
+                const persist = (source: Partial<Profile>, revision: number | null) => {
+                    const live = { profile_slug: source.profile_slug, visibility: source.visibility, storage_folder_path: folderPath };
+                    if (!publish) return saveDraft(id, revision, toDraft(publishedRef.current, source), live);
+                    return updateProfileAtRevision(id, revision, { ...toSnapshot(source), ...live, updated_at: source.updated_at } as ProfileUpdate);
+                };
+                let saved: Partial<Profile> = payload;
+                console.log("Updating profile:", id, "Publish:", publish); // DEBUG
+                let data = await persist(saved, serverRef.current.revision);
+
+                if (!data) {
+                    // Saved from another tab or device since - take over their changes, keep ours
+                    const [latest, latestDraft] = await Promise.all([fetchLatestProfile(id) as Promise<Profile>, getDraft(id)]);
+                    const published = toEditorForm(latest);
+                    publishedRef.current = toSnapshot(published);
+                    const base = serverRef.current.content;
+                    const mine = editableContent(payload);
+                    const theirs = editableContent(withDraft(published, latestDraft));
+                    const fields = Array.from(new Set([...Object.keys(base), ...Object.keys(mine), ...Object.keys(theirs)]))
+                        .filter(field => !isDerivedField(field));
+                    const { merged, conflicts } = threeWayMerge(base, mine, theirs, fields);
+                    const taken = fields.filter(field => merged[field as keyof Profile] !== mine[field as keyof Profile]);
+                    serverRef.current = { revision: latest.revision ?? null, content: theirs };
+
+                    if (conflicts.length > 0) {
+                        mergeOpenRef.current = true;
+                        if (mountedRef.current) {
+                            setMergeConflict({
+                                conflicts: conflicts.map(field => ({
+                                    field,
+                                    label: getFieldLabel(field),
+                                    mine: describeField(field, mine[field as keyof Profile]),
+                                    theirs: describeField(field, theirs[field as keyof Profile]),
+                                })),
+                                theirs,
+                                taken,
+                                publish,
+                            });
+                        }
+                        return;
+                    }
 
-                if (error) {
-                    console.error("Supabase Update Error:", error);
-                    throw error;
+                    saved = withMirrors({ ...payload, ...merged });
+                    data = await persist(saved, serverRef.current.revision);
+                    if (!data) throw new Error('Your profile was changed again while saving. Please try again.');
+                    if (taken.length > 0 && mountedRef.current) {
+                        setFormData(prev => withMirrors({ ...prev, ...Object.fromEntries(taken.map(field => [field, theirs[field as keyof Profile]])) }));
+                    }
                 }
+                serverRef.current = { revision: data.revision ?? null, content: editableContent(saved) };
+                if (publish) await clearPublishedDraft(id, serverRef.current.revision);
 
                 // VERIFICATION STEP: Check if critical fields persisted
-                if (data) {
+                if (data && publish) {
                     const verifyField = (field: keyof Profile, label: string) => {
                         // Loose comparison to handle null/undefined/empty string diffs
-                        const payloadVal = (payload as any)[field] || '';
+                        const payloadVal = (saved as any)[field] || '';
                         const dbVal = (data as any)[field] || '';
                         if (payloadVal !== dbVal) {
                             console.error(`Verification Failed for ${label}: Expected '${payloadVal}', got '${dbVal}'`);
@@ -420,6 +893,17 @@ const ProfileEditor: React.FC = () => {
                         throw new Error("Save reported success, but data was not persisted in Database. Please check if columns 'gst_number' and 'billing_address' exist in your Supabase 'profiles' table.");
                     }
                 }
+                if (publish) publishedRef.current = toSnapshot(saved);
+                if (data && mountedRef.current) {
+                    setSavedSlug(data.profile_slug || null);
+                    setHasDraft(!publish && toDraft(publishedRef.current, saved) !== null);
+                }
+
+                // Every manual save and publish is a version; autosave only leaves one every few minutes
+                if (!isAutosave || Date.now() - lastCheckpointRef.current > AUTOSAVE_CHECKPOINT_MS) {
+                    lastCheckpointRef.current = Date.now();
+                    saveVersion(id, saved, publish ? 'publish' : isAutosave ? 'autosave' : 'manual').catch(err => console.error('Version snapshot failed:', err));
+                }
 
             } else {
                 console.log("Creating profile. Payload:", payload); // DEBUG
@@ -428,6 +912,7 @@ const ProfileEditor: React.FC = () => {
                     console.error("Supabase Insert Error:", error);
                     throw error;
                 }
+                if (data) saveVersion(data.id, payload, 'manual').catch(err => console.error('Version snapshot failed:', err));
                 if (data && mountedRef.current) navigate(`/profile/${data.id}/edit`, { replace: true });
             }
 
@@ -435,26 +920,74 @@ const ProfileEditor: React.FC = () => {
             if (bgPhoto && mountedRef.current) setBgPhoto(null);
 
             if (mountedRef.current) {
-                if (!isAutosave) showToast('Saved Successfully!', 'success');
+                if (publish) showToast('Published! Visitors now see these changes.', 'success');
+                else if (!isAutosave) showToast(id ? "Draft saved. Publish when you're ready." : 'Saved Successfully!', 'success');
                 refreshProfile();
             }
 
         } catch (err: any) {
             console.error(err);
-            if (!isAutosave && mountedRef.current) showToast(err.message || "Failed to save profile.", 'error');
+            const message = isSlugConflict(err) ? "That profile link is already taken. Please choose another." : err.message;
+            if (!isAutosave && mountedRef.current) showToast(message || "Failed to save profile.", 'error');
         } finally {
-            if (mountedRef.current) setLoading(false);
+            if (mountedRef.current) {
+                setLoading(false);
+                setPublishing(false);
+            }
 
-            // If a save was requested while we were saving, trigger it now
+            // If a save was requested while we were saving, trigger it now - with the latest form data
             if ((saveStateRef.current as string) === 'PENDING_SAVE') {
                 saveStateRef.current = 'IDLE';
-                handleSubmit(true);
+                const publishNext = publishPendingRef.current;
+                publishPendingRef.current = false;
+                handleSubmitRef.current(!publishNext, publishNext);
             } else {
                 saveStateRef.current = 'IDLE';
             }
         }
     }, [formData, profilePhoto, bgPhoto, id, navigate, showToast, refreshProfile]);
 
+    // Unsaved edits count too, so Publish is ready before the next autosave lands.
+    // hasDraft is listed so this re-runs once a publish has moved publishedRef
+    const unpublished = useMemo(
+        () => Boolean(id) && (hasDraft || toDraft(publishedRef.current, formData) !== null),
+        [id, hasDraft, formData]
+    );
+
+    const handleSubmitRef = useRef(handleSubmit);
+    handleSubmitRef.current = handleSubmit;
+
+    const handlePublish = () => {
+        if (debounceTimeout.current) clearTimeout(debounceTimeout.current);
+        handleSubmit(false, true);
+    };
+
+    // Back to what visitors see. Manually saved drafts can still be found in the version history
+    const discardDraft = async () => {
+        if (!id || !window.confirm('Discard all unpublished changes? The editor goes back to your live profile.')) return;
+        if (saveStateRef.current !== 'IDLE') {
+            showToast('Still saving - try again in a moment.', 'info');
+            return;
+        }
+        if (debounceTimeout.current) clearTimeout(debounceTimeout.current);
+        try {
+            // Goes through the revision check too, so a tab still holding the draft can't quietly save it back
+            const { profile_slug, visibility } = serverRef.current.content;
+            const data = await saveDraft(id, serverRef.current.revision, null, { profile_slug, visibility, storage_folder_path: formData.storage_folder_path });
+            if (!mountedRef.current) return;
+            if (!data) {
+                showToast('Your profile was just saved somewhere else. Reload the page before discarding.', 'error');
+                return;
+            }
+            initializeForm(data as Profile, null);
+            refreshProfile();
+            showToast('Unpublished changes discarded', 'info');
+        } catch (err) {
+            console.error('Discard draft failed:', err);
+            showToast('Could not discard the changes. Please try again.', 'error');
+        }
+    };
+
     useEffect(() => {
         if (hasMounted.current && id) {
             if (debounceTimeout.current) clearTimeout(debounceTimeout.current);
@@ -465,6 +998,25 @@ const ProfileEditor: React.FC = () => {
         return () => { if (debounceTimeout.current) clearTimeout(debounceTimeout.current); };
     }, [formData, handleSubmit, id]);
 
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+            // Dialogs over the editor, and fields outside form history, keep the browser's own undo
+            if (mergeConflict || showHistory) return;
+            if (e.target instanceof HTMLElement && e.target.closest('[data-no-undo]')) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                redo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [undo, redo, mergeConflict, showHistory]);
+
     // Removed: visibility-based autosave (per minimal architecture - visibility changes trigger nothing)
 
     const IconButton = ({ icon, label, isActive, onClick }: any) => (
@@ -487,7 +1039,10 @@ const ProfileEditor: React.FC = () => {
     const inputClass = "w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1.5 text-sm text-white focus:border-gold outline-none placeholder-zinc-500";
     const labelClass = "block text-xs font-medium text-zinc-400 mb-1";
 
-    const actionButtons = formData.custom_elements?.filter(e => e.type === 'link') || [];
+    const stackElements = formData.custom_elements?.filter(e => e.type !== 'social') || [];
+    const translationsMissing = Object.keys(formData.translations || {})
+        .filter(code => code !== getDefaultLocale(formData))
+        .reduce((total, code) => total + countMissing(formData, code), 0);
     const socialButtons = formData.custom_elements?.filter(e => e.type === 'social') || [];
 
     return (
@@ -498,21 +1053,80 @@ const ProfileEditor: React.FC = () => {
                 <div className="flex justify-between items-center px-4 py-2 border-b border-zinc-800 bg-zinc-900">
                     <div className="flex items-center gap-2">
                         <span className="text-sm font-bold text-white">Edit Profile</span>
-                        <span className="hidden sm:inline text-xs text-zinc-500">Preview: Links are fully interactive - click to test!</span>
+                        {unpublished ? (
+                            <span className="flex items-center gap-1.5 text-[10px] font-bold text-amber-400 bg-amber-400/10 border border-amber-400/30 rounded-full px-2 py-0.5">
+                                <span className="w-1.5 h-1.5 rounded-full bg-amber-400"></span>
+                                Unpublished changes
+                                <button onClick={discardDraft} className="font-normal text-zinc-400 hover:text-white underline ml-1">Discard</button>
+                            </span>
+                        ) : id && (
+                            <span className="text-[10px] font-bold text-green-400 bg-green-400/10 border border-green-400/30 rounded-full px-2 py-0.5">Live</span>
+                        )}
+                        <span className="hidden lg:inline text-xs text-zinc-500">Preview: Links are fully interactive - click to test!</span>
                     </div>
                     <div className="flex gap-2 items-center">
+                        <div className="flex bg-zinc-800 border border-zinc-700 rounded-md overflow-hidden">
+                            <button
+                                onClick={undo}
+                                disabled={!canUndo}
+                                title="Undo (Ctrl+Z)"
+                                aria-label="Undo"
+                                className="px-2 py-1 text-zinc-300 hover:text-white hover:bg-zinc-700 disabled:opacity-30 disabled:hover:bg-transparent"
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M9 15L3 9m0 0l6-6M3 9h12a6 6 0 010 12h-3" /></svg>
+                            </button>
+                            <button
+                                onClick={redo}
+                                disabled={!canRedo}
+                                title="Redo (Ctrl+Shift+Z)"
+                                aria-label="Redo"
+                                className="px-2 py-1 text-zinc-300 hover:text-white hover:bg-zinc-700 disabled:opacity-30 disabled:hover:bg-transparent border-l border-zinc-700"
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M15 15l6-6m0 0l-6-6m6 6H9a6 6 0 000 12h3" /></svg>
+                            </button>
+                        </div>
+                        {id && (
+                            <button
+                                onClick={() => setShowHistory(true)}
+                                title="Version history"
+                                className="flex items-center gap-1 px-2 py-1 text-xs text-zinc-300 hover:text-white bg-zinc-800 border border-zinc-700 rounded-md hover:bg-zinc-700"
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                                <span className="hidden sm:inline">History</span>
+                            </button>
+                        )}
                         <PreviewModeToggle
                             mode={previewMode}
                             onChange={handlePreviewModeChange}
                             className=""
                         />
-                        <button
-                            onClick={() => handleSubmit(false)}
-                            disabled={loading}
-                            className="bg-gold text-black px-4 py-1.5 rounded-md text-[10px] font-bold hover:bg-gold-600 disabled:opacity-50 flex items-center gap-2"
-                        >
-                            {loading ? "Saving..." : "Save"}
-                        </button>
+                        {id ? (
+                            <>
+                                <button
+                                    onClick={() => handleSubmit(false)}
+                                    disabled={loading}
+                                    className="bg-zinc-800 text-zinc-200 border border-zinc-700 px-3 py-1.5 rounded-md text-[10px] font-bold hover:text-white hover:bg-zinc-700 disabled:opacity-50"
+                                >
+                                    {loading && !publishing ? "Saving..." : "Save Draft"}
+                                </button>
+                                <button
+                                    onClick={handlePublish}
+                                    disabled={loading || !unpublished}
+                                    title={unpublished ? 'Make your changes visible to visitors' : 'Everything is published'}
+                                    className="bg-gold text-black px-4 py-1.5 rounded-md text-[10px] font-bold hover:bg-gold-600 disabled:opacity-50 flex items-center gap-2"
+                                >
+                                    {publishing ? "Publishing..." : "Publish"}
+                                </button>
+                            </>
+                        ) : (
+                            <button
+                                onClick={() => handleSubmit(false)}
+                                disabled={loading}
+                                className="bg-gold text-black px-4 py-1.5 rounded-md text-[10px] font-bold hover:bg-gold-600 disabled:opacity-50 flex items-center gap-2"
+                            >
+                                {loading ? "Saving..." : "Save"}
+                            </button>
+                        )}
                     </div>
                 </div>
 
@@ -530,17 +1144,37 @@ const ProfileEditor: React.FC = () => {
                         {activeTab === 'DETAILS' && (
                             <div className="space-y-4 animate-fade-in">
                                 <PanelHeader title="Profile Details" onClose={() => setActiveTab(null)} />
+                                <div className="flex items-center justify-between gap-3 p-3 bg-zinc-800/50 rounded-lg border border-zinc-800">
+                                    <div>
+                                        <h4 className="text-xs font-bold text-zinc-300 uppercase tracking-wide">Import Contact</h4>
+                                        <p className="text-[10px] text-zinc-500 mt-0.5">Prefill from your phone's contact card (.vcf) or a CSV export</p>
+                                    </div>
+                                    <label className="shrink-0 cursor-pointer bg-zinc-700 hover:bg-zinc-600 text-white text-[10px] px-3 py-2 rounded inline-block transition-colors font-medium border border-zinc-600">
+                                        Import File <input type="file" className="hidden" accept=".vcf,.csv,text/vcard,text/x-vcard,text/csv" onChange={handleContactImport} />
+                                    </label>
+                                </div>
                                 <div className="flex items-center gap-4 p-3 bg-zinc-800/50 rounded-lg border border-zinc-800">
-                                    <img src={formData.profile_photo_url || `https://ui-avatars.com/api/?name=${formData.full_name}`} className="w-12 h-12 rounded-full object-cover bg-zinc-950 border border-zinc-700" />
+                                    <img src={getThumbnailUrl(formData.profile_photo_url) || formData.profile_photo_url || `https://ui-avatars.com/api/?name=${formData.full_name}`} className="w-12 h-12 rounded-full object-cover bg-zinc-950 border border-zinc-700" />
                                     <div className="flex-1">
                                         <label className="cursor-pointer bg-zinc-700 hover:bg-zinc-600 text-white text-[10px] px-3 py-2 rounded inline-block transition-colors font-medium border border-zinc-600">
                                             Change Photo <input type="file" className="hidden" accept="image/*" onChange={(e) => handleFileChange(e, 'profile')} />
                                         </label>
                                     </div>
                                 </div>
+                                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                                    <div>
+                                        <label className={labelClass}>Honorific</label>
+                                        <select value={formData.honorific || ''} onChange={(e) => updateNamePart('honorific', e.target.value)} className={inputClass}>
+                                            {HONORIFICS.map(h => <option key={h} value={h}>{h || 'None'}</option>)}
+                                        </select>
+                                    </div>
+                                    <div><label className={labelClass}>First Name</label><input type="text" value={formData.given_name || ''} onChange={(e) => updateNamePart('given_name', e.target.value)} className={inputClass} /></div>
+                                    <div><label className={labelClass}>Middle Name</label><input type="text" value={formData.middle_name || ''} onChange={(e) => updateNamePart('middle_name', e.target.value)} className={inputClass} /></div>
+                                    <div><label className={labelClass}>Surname</label><input type="text" value={formData.family_name || ''} onChange={(e) => updateNamePart('family_name', e.target.value)} className={inputClass} /></div>
+                                </div>
                                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                                    <div><label className={labelClass}>Full Name</label><input type="text" name="full_name" value={formData.full_name || ''} onChange={handleInputChange} className={inputClass} /></div>
-                                    <div><label className={labelClass}>Company / Title</label><input type="text" name="company" value={formData.company || ''} onChange={handleInputChange} className={inputClass} /></div>
+                                    <div><label className={labelClass}>Job Title</label><input type="text" name="job_title" value={formData.job_title || ''} onChange={handleInputChange} placeholder="e.g. Sales Manager" className={inputClass} /></div>
+                                    <div><label className={labelClass}>Company</label><input type="text" name="company" value={formData.company || ''} onChange={handleInputChange} className={inputClass} /></div>
                                 </div>
                                 <div>
                                     <label className={labelClass}>
@@ -550,19 +1184,152 @@ const ProfileEditor: React.FC = () => {
                                     <input
                                         type="text"
                                         name="profile_slug"
+                                        data-no-undo
                                         value={formData.profile_slug || ''}
                                         onChange={(e) => {
                                             // Allow only alphanumeric, hyphens, underscores
-                                            const val = e.target.value.toLowerCase().replace(/[^a-z0-9-_]/g, '');
+                                            const val = sanitizeSlug(e.target.value);
                                             setFormData(prev => ({ ...prev, profile_slug: val }));
                                         }}
-                                        className={inputClass}
+                                        className={`${inputClass} ${slugBlocked ? 'border-red-500/70 focus:border-red-500' : ''}`}
                                         placeholder="unique-username"
                                     />
+                                    {slugStatus !== 'idle' && (
+                                        <p className={`text-[10px] mt-1 ${slugStatus === 'available' ? 'text-green-400' : slugBlocked ? 'text-red-400' : 'text-zinc-500'}`}>
+                                            {SLUG_AVAILABILITY_MESSAGES[slugStatus]}
+                                        </p>
+                                    )}
+                                    {savedSlug && formData.profile_slug !== savedSlug && !slugBlocked && (
+                                        <p className="text-[10px] text-zinc-400 mt-1">
+                                            Cards already printed with <strong>/p/{savedSlug}</strong> will keep working - the old link redirects here.
+                                        </p>
+                                    )}
+                                    {slugHistory.length > 0 && (
+                                        <div className="flex flex-wrap items-center gap-1.5 mt-1.5">
+                                            <span className="text-[10px] text-zinc-500">Old links redirecting here:</span>
+                                            {slugHistory.map(entry => (
+                                                <button
+                                                    key={entry.slug}
+                                                    type="button"
+                                                    onClick={() => setFormData(prev => ({ ...prev, profile_slug: entry.slug }))}
+                                                    className="text-[10px] text-zinc-300 bg-zinc-800 border border-zinc-700 rounded px-1.5 py-0.5 hover:border-gold/50 hover:text-white"
+                                                    title={`Retired ${new Date(entry.retired_at).toLocaleDateString()} - click to use it again`}
+                                                >
+                                                    {entry.slug}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                    {formData.profile_slug && [
+                                        { label: 'Share link', url: getShareUrl(formData.profile_slug) },
+                                        { label: 'NFC tag URL', url: getProfileUrl(formData.profile_slug, 'nfc') },
+                                    ].map(link => (
+                                        <div key={link.label} className="flex items-center gap-2 mt-1.5">
+                                            <span className="text-[10px] text-zinc-500 shrink-0">{link.label}:</span>
+                                            <code className="text-[10px] text-zinc-300 truncate">{link.url}</code>
+                                            <button
+                                                type="button"
+                                                onClick={() => navigator.clipboard.writeText(link.url).then(() => showToast(`${link.label} copied`, 'success'), () => showToast('Could not copy', 'error'))}
+                                                className="text-[10px] text-gold hover:underline shrink-0"
+                                            >
+                                                Copy
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                                <div>
+                                    <label className={labelClass}>Who can view this card</label>
+                                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                                        {VISIBILITY_OPTIONS.map(option => {
+                                            const selected = (formData.visibility || 'public') === option.value;
+                                            return (
+                                                <button
+                                                    key={option.value}
+                                                    type="button"
+                                                    onClick={() => setVisibility(option.value)}
+                                                    className={`text-left p-2 rounded-lg border transition-colors ${selected ? 'border-gold bg-gold/10' : 'border-zinc-700 bg-zinc-800/50 hover:border-zinc-500'}`}
+                                                >
+                                                    <span className={`block text-xs font-bold ${selected ? 'text-gold' : 'text-zinc-200'}`}>{option.label}</span>
+                                                    <span className="block text-[10px] text-zinc-500 mt-0.5 leading-tight">{option.description}</span>
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
+                                    {formData.visibility === 'pin' && (
+                                        <div className="mt-2 p-2 bg-zinc-800/50 border border-zinc-700 rounded-lg space-y-2">
+                                            {!id ? (
+                                                <p className="text-[10px] text-zinc-400">Save your profile once, then set the PIN here.</p>
+                                            ) : (
+                                                <>
+                                                    <p className={`text-[10px] ${hasPin === false ? 'text-red-400' : 'text-zinc-400'}`}>
+                                                        {hasPin === false ? 'No PIN set yet - nobody else can open your card until you add one.' : hasPin ? 'A PIN is set. Enter a new one to change it.' : 'Checking PIN...'}
+                                                    </p>
+                                                    <div className="flex gap-2">
+                                                        <input
+                                                            type="password"
+                                                            inputMode="numeric"
+                                                            autoComplete="new-password"
+                                                            data-no-undo
+                                                            value={pinInput}
+                                                            onChange={(e) => setPinInput(e.target.value.replace(/\D/g, '').slice(0, 8))}
+                                                            placeholder="4-8 digits"
+                                                            className={inputClass}
+                                                        />
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => handleSavePin(pinInput)}
+                                                            disabled={!PIN_PATTERN.test(pinInput) || savingPin}
+                                                            className="text-xs bg-gold text-black px-3 rounded font-bold hover:bg-gold-600 disabled:opacity-50 shrink-0"
+                                                        >
+                                                            {savingPin ? 'Saving...' : hasPin ? 'Change PIN' : 'Set PIN'}
+                                                        </button>
+                                                        {hasPin && (
+                                                            <button type="button" onClick={() => handleSavePin(null)} disabled={savingPin} className="text-xs text-red-400 hover:underline shrink-0">Remove</button>
+                                                        )}
+                                                    </div>
+                                                </>
+                                            )}
+                                        </div>
+                                    )}
+                                    {formData.visibility === 'disabled' && (
+                                        <p className="text-[10px] text-red-400 mt-1.5">Your card, QR code and NFC tag currently show "Profile Unavailable".</p>
+                                    )}
                                 </div>
-                                <div className="grid grid-cols-2 gap-3 border-t border-zinc-800 pt-4">
-                                    <div><label className={labelClass}>Phone</label><input type="tel" name="phone" value={formData.phone || ''} onChange={handleInputChange} className={inputClass} /></div>
-                                    <div><label className={labelClass}>Email</label><input type="email" name="email" value={formData.email || ''} onChange={handleInputChange} className={inputClass} /></div>
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 border-t border-zinc-800 pt-4">
+                                    <div className="space-y-2">
+                                        <div className="flex justify-between items-center">
+                                            <label className={labelClass}>Phone Numbers</label>
+                                            <button onClick={addPhone} className="text-[10px] bg-zinc-800 text-white border border-zinc-600 px-2 py-0.5 rounded font-bold hover:bg-zinc-700">+ Add</button>
+                                        </div>
+                                        {(formData.phones || []).map(phone => (
+                                            <div key={phone.id} className="flex items-center gap-1.5">
+                                                <select value={phone.type} onChange={(e) => updatePhone(phone.id, { type: e.target.value as PhoneEntry['type'] })} className={`${inputClass} w-24 shrink-0`}>
+                                                    {PHONE_TYPES.map(t => <option key={t.value} value={t.value}>{t.name}</option>)}
+                                                </select>
+                                                <input type="tel" value={phone.number} onChange={(e) => updatePhone(phone.id, { number: e.target.value })} placeholder="+91 98765 43210" className={inputClass} />
+                                                <button onClick={() => updatePhone(phone.id, { preferred: true })} className={`text-sm px-1 ${phone.preferred ? 'text-gold' : 'text-zinc-600 hover:text-zinc-400'}`} title={phone.preferred ? 'Preferred' : 'Make preferred'}>★</button>
+                                                <button onClick={() => removePhone(phone.id)} className="text-xs text-red-400 hover:underline px-1" title="Remove">✕</button>
+                                            </div>
+                                        ))}
+                                        {(formData.phones || []).length === 0 && <p className="text-xs text-zinc-500 italic">No phone numbers added.</p>}
+                                    </div>
+                                    <div className="space-y-2">
+                                        <div className="flex justify-between items-center">
+                                            <label className={labelClass}>Emails</label>
+                                            <button onClick={addEmail} className="text-[10px] bg-zinc-800 text-white border border-zinc-600 px-2 py-0.5 rounded font-bold hover:bg-zinc-700">+ Add</button>
+                                        </div>
+                                        {(formData.emails || []).map(email => (
+                                            <div key={email.id} className="flex items-center gap-1.5">
+                                                <select value={email.type} onChange={(e) => updateEmail(email.id, { type: e.target.value as EmailEntry['type'] })} className={`${inputClass} w-24 shrink-0`}>
+                                                    {EMAIL_TYPES.map(t => <option key={t.value} value={t.value}>{t.name}</option>)}
+                                                </select>
+                                                <input type="email" value={email.address} onChange={(e) => updateEmail(email.id, { address: e.target.value })} placeholder="name@company.com" className={inputClass} />
+                                                <button onClick={() => updateEmail(email.id, { preferred: true })} className={`text-sm px-1 ${email.preferred ? 'text-gold' : 'text-zinc-600 hover:text-zinc-400'}`} title={email.preferred ? 'Preferred' : 'Make preferred'}>★</button>
+                                                <button onClick={() => removeEmail(email.id)} className="text-xs text-red-400 hover:underline px-1" title="Remove">✕</button>
+                                            </div>
+                                        ))}
+                                        {(formData.emails || []).length === 0 && <p className="text-xs text-zinc-500 italic">No emails added.</p>}
+                                    </div>
                                 </div>
                                 <div><label className={labelClass}>Bio</label><textarea name="bio" value={formData.bio || ''} onChange={handleInputChange} className={inputClass} rows={2} /></div>
 
@@ -592,14 +1359,43 @@ const ProfileEditor: React.FC = () => {
                                             <div>
                                                 <label className={labelClass}>Billing Address</label>
                                                 <textarea
-                                                    name="billing_address"
-                                                    value={formData.billing_address || ''}
-                                                    onChange={handleInputChange}
-                                                    placeholder="Full registered business address"
+                                                    value={formData.address?.street || ''}
+                                                    onChange={(e) => updateAddress('street', e.target.value)}
+                                                    placeholder="Building, street, area"
                                                     className={inputClass}
-                                                    rows={3}
+                                                    rows={2}
                                                 />
                                             </div>
+                                            <div className="grid grid-cols-2 gap-3">
+                                                <div><label className={labelClass}>City</label><input type="text" value={formData.address?.city || ''} onChange={(e) => updateAddress('city', e.target.value)} className={inputClass} /></div>
+                                                <div><label className={labelClass}>State</label><input type="text" value={formData.address?.state || ''} onChange={(e) => updateAddress('state', e.target.value)} className={inputClass} /></div>
+                                                <div><label className={labelClass}>PIN Code</label><input type="text" inputMode="numeric" value={formData.address?.postal_code || ''} onChange={(e) => updateAddress('postal_code', e.target.value)} maxLength={10} className={inputClass} /></div>
+                                                <div><label className={labelClass}>Country</label><input type="text" value={formData.address?.country || ''} onChange={(e) => updateAddress('country', e.target.value)} placeholder="India" className={inputClass} /></div>
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+
+                                <div className="border border-zinc-800 rounded-lg overflow-hidden">
+                                    <button
+                                        onClick={() => setShowTranslations(!showTranslations)}
+                                        className="w-full flex justify-between items-center bg-zinc-800/50 p-3 hover:bg-zinc-800 transition-colors"
+                                    >
+                                        <span className="text-xs font-bold text-zinc-300 uppercase tracking-wide">
+                                            Languages
+                                            {translationsMissing > 0 && <span className="ml-2 text-[9px] normal-case font-bold text-red-300 bg-red-900/50 px-1.5 py-0.5 rounded-full">{translationsMissing} missing</span>}
+                                        </span>
+                                        <span className={`text-zinc-500 transform transition-transform ${showTranslations ? 'rotate-180' : ''}`}>▼</span>
+                                    </button>
+
+                                    {showTranslations && (
+                                        <div className="p-3 bg-zinc-900/50 animate-fade-in border-t border-zinc-800">
+                                            <TranslationEditor
+                                                profile={formData}
+                                                onChange={(patch) => setFormData(prev => ({ ...prev, ...patch }))}
+                                                inputClass={inputClass}
+                                                labelClass={labelClass}
+                                            />
                                         </div>
                                     )}
                                 </div>
@@ -692,62 +1488,121 @@ const ProfileEditor: React.FC = () => {
                                     </div>
                                 </div>
 
-                                {/* Section 1: Action Buttons (Vertical) */}
+                                {/* Section 1: Action Buttons & Content Blocks (Vertical) */}
                                 <div>
                                     <div className="flex justify-between items-center mb-2">
-                                        <h4 className="text-xs font-bold text-zinc-400 uppercase tracking-wide">Action Buttons</h4>
-                                        <button onClick={addActionButton} className="text-xs bg-zinc-800 text-white border border-zinc-600 px-2 py-1 rounded font-bold hover:bg-zinc-700">+ Add Button</button>
-                                    </div>
-                                    <div className="space-y-2">
-                                        {actionButtons.map((btn) => (
-                                            <div key={btn.id} className="bg-zinc-800/50 border border-zinc-700 rounded p-2">
-                                                <div className="flex justify-between items-center">
-                                                    <div className="flex items-center gap-2">
-                                                        <button onClick={() => moveElement(btn.id, -1)} className="text-zinc-500 hover:text-white">▲</button>
-                                                        <button onClick={() => moveElement(btn.id, 1)} className="text-zinc-500 hover:text-white">▼</button>
-                                                        <span className="text-sm font-medium text-white">{btn.label}</span>
-                                                    </div>
-                                                    <div className="flex gap-2">
-                                                        <button onClick={() => setEditingId(editingId === btn.id ? null : btn.id)} className="text-xs text-blue-400 hover:underline">{editingId === btn.id ? 'Close' : 'Edit'}</button>
-                                                        <button onClick={() => deleteElement(btn.id)} className="text-xs text-red-400 hover:underline">Delete</button>
+                                        <h4 className="text-xs font-bold text-zinc-400 uppercase tracking-wide">Buttons & Blocks</h4>
+                                        <div className="flex gap-2">
+                                            <button onClick={addActionButton} className="text-xs bg-zinc-800 text-white border border-zinc-600 px-2 py-1 rounded font-bold hover:bg-zinc-700">+ Add Button</button>
+                                            <div className="relative">
+                                                <button onClick={() => setShowBlockDropdown(!showBlockDropdown)} className="text-xs bg-zinc-800 text-zinc-300 border border-zinc-600 px-2 py-1 rounded font-bold hover:text-white transition-colors flex items-center gap-1">
+                                                    + Add Block
+                                                    <span className={`transform transition-transform ${showBlockDropdown ? 'rotate-180' : ''}`}>▼</span>
+                                                </button>
+                                                {showBlockDropdown && (
+                                                    <div className="absolute right-0 top-full mt-2 bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl p-2 w-56 z-50 grid grid-cols-1 gap-1 animate-fade-in">
+                                                        {BLOCK_TYPES.map(b => (
+                                                            <button key={b.type} onClick={() => addBlock(b.type)} className="text-left px-2 py-1.5 hover:bg-zinc-800 rounded transition-colors w-full">
+                                                                <span className="block text-xs text-zinc-200">{b.label}</span>
+                                                                <span className="block text-[10px] text-zinc-500">{b.description}</span>
+                                                            </button>
+                                                        ))}
                                                     </div>
-                                                </div>
-                                                {editingId === btn.id && (
-                                                    <div className="grid grid-cols-2 gap-3 mt-2 pt-2 border-t border-zinc-700/50">
-                                                        <div className="col-span-2"><label className={labelClass}>Label</label><input type="text" value={btn.label} onChange={(e) => updateElement(btn.id, 'label', e.target.value)} className={inputClass} /></div>
-                                                        <div className="col-span-2">
-                                                            <label className={labelClass}>URL</label>
-                                                            <input
-                                                                type="text"
-                                                                value={btn.url}
-                                                                onChange={(e) => {
-                                                                    let val = e.target.value;
-                                                                    if (val.match(/^(https?:\/\/){2,}/)) val = val.replace(/^(https?:\/\/)+/, 'https://');
-                                                                    updateElement(btn.id, 'url', val);
-                                                                }}
-                                                                onBlur={(e) => {
-                                                                    let val = e.target.value;
-                                                                    if (val && !val.startsWith('http') && !val.startsWith('//')) {
-                                                                        updateElement(btn.id, 'url', `https://${val}`);
-                                                                    }
-                                                                }}
-                                                                placeholder="https://..."
-                                                                className={inputClass}
-                                                            />
+                                                )}
+                                            </div>
+                                        </div>
+                                    </div>
+                                    <Reorder.Group as="div" axis="y" values={stackElements.map(e => e.id)} onReorder={reorderElements} className="space-y-2">
+                                        {stackElements.map((btn) => isContentBlock(btn) ? (
+                                            <SortableItem key={btn.id} value={btn.id} label={getBlockLabel(btn.type)} onMove={(dir) => moveElement(btn.id, dir)} className="bg-zinc-800/30 border border-dashed border-zinc-700 rounded p-2">
+                                                {(handle) => (
+                                                    <>
+                                                        <div className="flex justify-between items-center">
+                                                            <div className="flex items-center gap-2 min-w-0">
+                                                                {handle}
+                                                                <span className="text-[9px] uppercase tracking-wide font-bold text-zinc-400 bg-zinc-900 border border-zinc-700 rounded px-1.5 py-0.5 shrink-0">{getBlockLabel(btn.type)}</span>
+                                                                <span className="text-xs text-zinc-400 truncate">{btn.data?.text || btn.data?.query || btn.data?.embedUrl || (btn.data?.images?.length ? `${btn.data.images.length} image${btn.data.images.length > 1 ? 's' : ''}` : '')}</span>
+                                                                <ScheduleBadge element={btn} />
+                                                            </div>
+                                                            <div className="flex gap-2 shrink-0">
+                                                                <button onClick={() => setEditingId(editingId === btn.id ? null : btn.id)} className="text-xs text-blue-400 hover:underline">{editingId === btn.id ? 'Close' : 'Edit'}</button>
+                                                                <button onClick={() => deleteElement(btn.id)} className="text-xs text-red-400 hover:underline">Delete</button>
+                                                            </div>
                                                         </div>
-                                                        <div><label className={labelClass}>Bg Color</label><div className="flex items-center gap-2 bg-zinc-800 border border-zinc-700 p-1 rounded"><input type="color" value={btn.style.backgroundColor} onChange={(e) => updateElement(btn.id, 'style.backgroundColor', e.target.value)} className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer" /></div></div>
-                                                        <div><label className={labelClass}>Text Color</label><div className="flex items-center gap-2 bg-zinc-800 border border-zinc-700 p-1 rounded"><input type="color" value={btn.style.textColor} onChange={(e) => updateElement(btn.id, 'style.textColor', e.target.value)} className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer" /></div></div>
-                                                        <div><label className={labelClass}>Shape</label><select value={btn.style.shape} onChange={(e) => updateElement(btn.id, 'style.shape', e.target.value)} className={inputClass}><option value="rounded-none">Square</option><option value="rounded-lg">Rounded</option><option value="rounded-full">Pill</option></select></div>
-                                                        <div className="flex items-center gap-2 pt-4">
-                                                            <input type="checkbox" checked={btn.style.shadow} onChange={(e) => updateElement(btn.id, 'style.shadow', e.target.checked)} />
-                                                            <label className="text-xs text-zinc-300">Shadow</label>
+                                                        {editingId === btn.id && (
+                                                            <div className="mt-2 pt-2 border-t border-zinc-700/50">
+                                                                <BlockEditorPanel
+                                                                    block={btn}
+                                                                    onChange={(patch) => updateBlockData(btn.id, patch)}
+                                                                    onUploadImage={uploadBlockImage}
+                                                                    inputClass={inputClass}
+                                                                    labelClass={labelClass}
+                                                                    defaultMapQuery={formatAddress(getAddress(formData)).replace(/\n/g, ', ')}
+                                                                />
+                                                                <div className="mt-3 pt-2 border-t border-zinc-700/50">
+                                                                    <ScheduleEditor element={btn} onChange={(field, value) => updateElement(btn.id, field, value)} inputClass={inputClass} labelClass={labelClass} />
+                                                                </div>
+                                                            </div>
+                                                        )}
+                                                    </>
+                                                )}
+                                            </SortableItem>
+                                        ) : (
+                                            <SortableItem key={btn.id} value={btn.id} label={btn.label || 'Button'} onMove={(dir) => moveElement(btn.id, dir)} className="bg-zinc-800/50 border border-zinc-700 rounded p-2">
+                                                {(handle) => (
+                                                    <>
+                                                        <div className="flex justify-between items-center">
+                                                            <div className="flex items-center gap-2">
+                                                                {handle}
+                                                                <span className="text-sm font-medium text-white">{btn.label}</span>
+                                                                <ScheduleBadge element={btn} />
+                                                            </div>
+                                                            <div className="flex gap-2">
+                                                                <button onClick={() => setEditingId(editingId === btn.id ? null : btn.id)} className="text-xs text-blue-400 hover:underline">{editingId === btn.id ? 'Close' : 'Edit'}</button>
+                                                                <button onClick={() => deleteElement(btn.id)} className="text-xs text-red-400 hover:underline">Delete</button>
+                                                            </div>
                                                         </div>
-                                                    </div>
+                                                        {editingId === btn.id && (
+                                                            <div className="grid grid-cols-2 gap-3 mt-2 pt-2 border-t border-zinc-700/50">
+                                                                <div className="col-span-2"><label className={labelClass}>Label</label><input type="text" value={btn.label} onChange={(e) => updateElement(btn.id, 'label', e.target.value)} className={inputClass} /></div>
+                                                                <div className="col-span-2">
+                                                                    <label className={labelClass}>URL</label>
+                                                                    <input
+                                                                        type="text"
+                                                                        value={btn.url}
+                                                                        onChange={(e) => {
+                                                                            let val = e.target.value;
+                                                                            if (val.match(/^(https?:\/\/){2,}/)) val = val.replace(/^(https?:\/\/)+/, 'https://');
+                                                                            updateElement(btn.id, 'url', val);
+                                                                        }}
+                                                                        onBlur={(e) => {
+                                                                            let val = e.target.value;
+                                                                            if (val && !val.startsWith('http') && !val.startsWith('//')) {
+                                                                                updateElement(btn.id, 'url', `https://${val}`);
+                                                                            }
+                                                                        }}
+                                                                        placeholder="https://..."
+                                                                        className={inputClass}
+                                                                    />
+                                                                </div>
+                                                                <div><label className={labelClass}>Bg Color</label><div className="flex items-center gap-2 bg-zinc-800 border border-zinc-700 p-1 rounded"><input type="color" value={btn.style.backgroundColor} onChange={(e) => updateElement(btn.id, 'style.backgroundColor', e.target.value)} className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer" /></div></div>
+                                                                <div><label className={labelClass}>Text Color</label><div className="flex items-center gap-2 bg-zinc-800 border border-zinc-700 p-1 rounded"><input type="color" value={btn.style.textColor} onChange={(e) => updateElement(btn.id, 'style.textColor', e.target.value)} className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer" /></div></div>
+                                                                <div><label className={labelClass}>Shape</label><select value={btn.style.shape} onChange={(e) => updateElement(btn.id, 'style.shape', e.target.value)} className={inputClass}><option value="rounded-none">Square</option><option value="rounded-lg">Rounded</option><option value="rounded-full">Pill</option></select></div>
+                                                                <div className="flex items-center gap-2 pt-4">
+                                                                    <input type="checkbox" checked={btn.style.shadow} onChange={(e) => updateElement(btn.id, 'style.shadow', e.target.checked)} />
+                                                                    <label className="text-xs text-zinc-300">Shadow</label>
+                                                                </div>
+                                                                <div className="col-span-2 pt-2 border-t border-zinc-700/50">
+                                                                    <ScheduleEditor element={btn} onChange={(field, value) => updateElement(btn.id, field, value)} inputClass={inputClass} labelClass={labelClass} />
+                                                                </div>
+                                                            </div>
+                                                        )}
+                                                    </>
                                                 )}
-                                            </div>
+                                            </SortableItem>
                                         ))}
-                                        {actionButtons.length === 0 && <p className="text-xs text-zinc-500 italic">No buttons added.</p>}
-                                    </div>
+                                        {stackElements.length === 0 && <p className="text-xs text-zinc-500 italic">No buttons or blocks added.</p>}
+                                    </Reorder.Group>
                                 </div>
 
                                 {/* Section 2: Social Icons (Horizontal) */}
@@ -772,85 +1627,138 @@ const ProfileEditor: React.FC = () => {
                                             )}
                                         </div>
                                     </div>
-                                    <div className="space-y-2">
+                                    <Reorder.Group as="div" axis="y" values={socialButtons.map(e => e.id)} onReorder={reorderElements} className="space-y-2">
                                         {socialButtons.map((btn) => (
-                                            <div key={btn.id} className="bg-zinc-800/50 border border-zinc-700 rounded p-2">
-                                                <div className="flex justify-between items-center">
-                                                    <div className="flex items-center gap-3">
-                                                        <button onClick={() => moveElement(btn.id, -1)} className="text-zinc-500 hover:text-white">▲</button>
-                                                        <button onClick={() => moveElement(btn.id, 1)} className="text-zinc-500 hover:text-white">▼</button>
-                                                        {/* Icon Preview */}
-                                                        <div
-                                                            className="w-6 h-6 rounded-full flex items-center justify-center p-1"
-                                                            style={{ backgroundColor: btn.style.backgroundColor }}
-                                                        >
-                                                            {btn.iconUrl ?
-                                                                <img src={btn.iconUrl} className="w-full h-full object-cover rounded-full" /> :
-                                                                <div className="w-full h-full" style={{ color: btn.style.textColor }} dangerouslySetInnerHTML={{ __html: SOCIAL_ICONS[btn.subtype || 'website'] || SOCIAL_ICONS['custom'] }} />
-                                                            }
-                                                        </div>
-                                                        <span className="text-sm font-medium text-white">{btn.label}</span>
-                                                    </div>
-                                                    <div className="flex gap-2">
-                                                        <button onClick={() => setEditingId(editingId === btn.id ? null : btn.id)} className="text-xs text-blue-400 hover:underline">{editingId === btn.id ? 'Close' : 'Edit'}</button>
-                                                        <button onClick={() => deleteElement(btn.id)} className="text-xs text-red-400 hover:underline">Delete</button>
-                                                    </div>
-                                                </div>
-                                                {editingId === btn.id && (
-                                                    <div className="mt-2 pt-2 border-t border-zinc-700/50 space-y-2">
-                                                        <div>
-                                                            <label className={labelClass}>{btn.subtype === 'whatsapp' ? 'WhatsApp Number' : 'URL'}</label>
-                                                            {btn.subtype === 'whatsapp' ? (
-                                                                <div className="flex items-center">
-                                                                    <span className="bg-zinc-700 text-zinc-400 px-2 py-1.5 text-sm rounded-l border border-r-0 border-zinc-700 h-full flex items-center">wa.me/</span>
-                                                                    <input
-                                                                        type="text"
-                                                                        value={btn.url.replace(/^https:\/\/wa\.me\//, '')}
-                                                                        onChange={(e) => {
-                                                                            // Allow numbers, plus, and spaces (stripped)
-                                                                            const raw = e.target.value;
-                                                                            updateElement(btn.id, 'url', `https://wa.me/${raw}`);
-                                                                        }}
-                                                                        placeholder="919876543210"
-                                                                        className={`${inputClass} rounded-l-none`}
-                                                                    />
+                                            <SortableItem key={btn.id} value={btn.id} label={btn.label || 'Social icon'} onMove={(dir) => moveElement(btn.id, dir)} className="bg-zinc-800/50 border border-zinc-700 rounded p-2">
+                                                {(handle) => (
+                                                    <>
+                                                        <div className="flex justify-between items-center">
+                                                            <div className="flex items-center gap-3">
+                                                                {handle}
+                                                                {/* Icon Preview */}
+                                                                <div
+                                                                    className="w-6 h-6 rounded-full flex items-center justify-center p-1"
+                                                                    style={{ backgroundColor: btn.style.backgroundColor }}
+                                                                >
+                                                                    {btn.iconUrl ?
+                                                                        <img src={btn.iconUrl} className="w-full h-full object-cover rounded-full" /> :
+                                                                        <div className="w-full h-full" style={{ color: btn.style.textColor }} dangerouslySetInnerHTML={{ __html: SOCIAL_ICONS[btn.subtype || 'website'] || SOCIAL_ICONS['custom'] }} />
+                                                                    }
                                                                 </div>
-                                                            ) : (
-                                                                <input
-                                                                    type="text"
-                                                                    value={btn.url}
-                                                                    onChange={(e) => {
-                                                                        let val = e.target.value;
-                                                                        if (val.match(/^(https?:\/\/){2,}/)) val = val.replace(/^(https?:\/\/)+/, 'https://');
-                                                                        updateElement(btn.id, 'url', val);
-                                                                    }}
-                                                                    onBlur={(e) => {
-                                                                        let val = e.target.value;
-                                                                        if (val && !val.startsWith('http') && !val.startsWith('//')) {
-                                                                            updateElement(btn.id, 'url', `https://${val}`);
-                                                                        }
-                                                                    }}
-                                                                    placeholder="https://..."
-                                                                    className={inputClass}
-                                                                />
-                                                            )}
+                                                                <span className="text-sm font-medium text-white">{btn.label}</span>
+                                                                <ScheduleBadge element={btn} />
+                                                            </div>
+                                                            <div className="flex gap-2">
+                                                                <button onClick={() => setEditingId(editingId === btn.id ? null : btn.id)} className="text-xs text-blue-400 hover:underline">{editingId === btn.id ? 'Close' : 'Edit'}</button>
+                                                                <button onClick={() => deleteElement(btn.id)} className="text-xs text-red-400 hover:underline">Delete</button>
+                                                            </div>
                                                         </div>
+                                                        {editingId === btn.id && (
+                                                            <div className="mt-2 pt-2 border-t border-zinc-700/50 space-y-2">
+                                                                <div>
+                                                                    <label className={labelClass}>{btn.subtype === 'whatsapp' ? 'WhatsApp Number' : 'URL'}</label>
+                                                                    {btn.subtype === 'whatsapp' ? (
+                                                                        <div className="flex items-center">
+                                                                            <span className="bg-zinc-700 text-zinc-400 px-2 py-1.5 text-sm rounded-l border border-r-0 border-zinc-700 h-full flex items-center">wa.me/</span>
+                                                                            <input
+                                                                                type="text"
+                                                                                value={btn.url.replace(/^https:\/\/wa\.me\//, '')}
+                                                                                onChange={(e) => {
+                                                                                    // Allow numbers, plus, and spaces (stripped)
+                                                                                    const raw = e.target.value;
+                                                                                    updateElement(btn.id, 'url', `https://wa.me/${raw}`);
+                                                                                }}
+                                                                                placeholder="919876543210"
+                                                                                className={`${inputClass} rounded-l-none`}
+                                                                            />
+                                                                        </div>
+                                                                    ) : (
+                                                                        <input
+                                                                            type="text"
+                                                                            value={btn.url}
+                                                                            onChange={(e) => {
+                                                                                let val = e.target.value;
+                                                                                if (val.match(/^(https?:\/\/){2,}/)) val = val.replace(/^(https?:\/\/)+/, 'https://');
+                                                                                updateElement(btn.id, 'url', val);
+                                                                            }}
+                                                                            onBlur={(e) => {
+                                                                                let val = e.target.value;
+                                                                                if (val && !val.startsWith('http') && !val.startsWith('//')) {
+                                                                                    updateElement(btn.id, 'url', `https://${val}`);
+                                                                                }
+                                                                            }}
+                                                                            placeholder="https://..."
+                                                                            className={inputClass}
+                                                                        />
+                                                                    )}
+                                                                </div>
 
-                                                        <div className="grid grid-cols-2 gap-3">
-                                                            <div><label className={labelClass}>Background Color</label><div className="flex items-center gap-2 bg-zinc-800 border border-zinc-700 p-1 rounded"><input type="color" value={btn.style.backgroundColor} onChange={(e) => updateElement(btn.id, 'style.backgroundColor', e.target.value)} className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer" /></div></div>
-                                                            <div><label className={labelClass}>Icon Color</label><div className="flex items-center gap-2 bg-zinc-800 border border-zinc-700 p-1 rounded"><input type="color" value={btn.style.textColor} onChange={(e) => updateElement(btn.id, 'style.textColor', e.target.value)} className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer" /></div></div>
-                                                        </div>
+                                                                <div className="grid grid-cols-2 gap-3">
+                                                                    <div><label className={labelClass}>Background Color</label><div className="flex items-center gap-2 bg-zinc-800 border border-zinc-700 p-1 rounded"><input type="color" value={btn.style.backgroundColor} onChange={(e) => updateElement(btn.id, 'style.backgroundColor', e.target.value)} className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer" /></div></div>
+                                                                    <div><label className={labelClass}>Icon Color</label><div className="flex items-center gap-2 bg-zinc-800 border border-zinc-700 p-1 rounded"><input type="color" value={btn.style.textColor} onChange={(e) => updateElement(btn.id, 'style.textColor', e.target.value)} className="w-6 h-6 p-0 border-0 bg-transparent cursor-pointer" /></div></div>
+                                                                </div>
 
-                                                        <div>
-                                                            <label className={labelClass}>Custom Icon Override</label>
-                                                            <input type="file" accept="image/*" onChange={(e) => handleFileChange(e, 'custom_icon', btn.id)} className="text-xs text-zinc-500" />
-                                                        </div>
-                                                    </div>
+                                                                <div>
+                                                                    <label className={labelClass}>Custom Icon Override</label>
+                                                                    <input type="file" accept="image/*" onChange={(e) => handleFileChange(e, 'custom_icon', btn.id)} className="text-xs text-zinc-500" />
+                                                                </div>
+
+                                                                <div className="pt-2 border-t border-zinc-700/50">
+                                                                    <ScheduleEditor element={btn} onChange={(field, value) => updateElement(btn.id, field, value)} inputClass={inputClass} labelClass={labelClass} />
+                                                                </div>
+                                                            </div>
+                                                        )}
+                                                    </>
                                                 )}
-                                            </div>
+                                            </SortableItem>
                                         ))}
                                         {socialButtons.length === 0 && <p className="text-xs text-zinc-500 italic">No social links added.</p>}
+                                    </Reorder.Group>
+                                </div>
+
+                                {/* Section 3: Exchange Contact (Lead Capture) */}
+                                <div className="bg-zinc-800/50 p-3 rounded-lg border border-zinc-700">
+                                    <div className="flex items-center justify-between">
+                                        <div>
+                                            <h4 className="text-xs font-bold text-zinc-300 uppercase tracking-wide">Exchange Contact</h4>
+                                            <p className="text-[10px] text-zinc-500 mt-0.5">Let visitors leave their details - they appear in your Dashboard</p>
+                                        </div>
+                                        <button
+                                            type="button"
+                                            onClick={() => updateLeadCapture('enabled', !formData.lead_capture?.enabled)}
+                                            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${formData.lead_capture?.enabled ? 'bg-gold' : 'bg-zinc-700'}`}
+                                        >
+                                            <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${formData.lead_capture?.enabled ? 'translate-x-6' : 'translate-x-1'}`} />
+                                        </button>
                                     </div>
+                                    {formData.lead_capture?.enabled && (
+                                        <div className="space-y-2 mt-3 pt-3 border-t border-zinc-700/50">
+                                            <div className="grid grid-cols-2 gap-3">
+                                                <div>
+                                                    <label className={labelClass}>Button Text</label>
+                                                    <input type="text" value={formData.lead_capture.buttonText} onChange={(e) => updateLeadCapture('buttonText', e.target.value)} placeholder={DEFAULT_LEAD_CAPTURE.buttonText} className={inputClass} maxLength={40} />
+                                                </div>
+                                                <div>
+                                                    <label className={labelClass}>Form Title</label>
+                                                    <input type="text" value={formData.lead_capture.title} onChange={(e) => updateLeadCapture('title', e.target.value)} placeholder={DEFAULT_LEAD_CAPTURE.title} className={inputClass} maxLength={60} />
+                                                </div>
+                                            </div>
+                                            <div>
+                                                <label className={labelClass}>Consent Text</label>
+                                                <textarea value={formData.lead_capture.consentText} onChange={(e) => updateLeadCapture('consentText', e.target.value)} rows={2} className={inputClass} maxLength={300} />
+                                            </div>
+                                            <div className="flex items-center gap-4">
+                                                <label className="flex items-center gap-2 text-xs text-zinc-300">
+                                                    <input type="checkbox" checked={formData.lead_capture.askCompany} onChange={(e) => updateLeadCapture('askCompany', e.target.checked)} />
+                                                    Ask for company
+                                                </label>
+                                                <label className="flex items-center gap-2 text-xs text-zinc-300">
+                                                    <input type="checkbox" checked={formData.lead_capture.askNote} onChange={(e) => updateLeadCapture('askNote', e.target.checked)} />
+                                                    Ask for a note
+                                                </label>
+                                            </div>
+                                        </div>
+                                    )}
                                 </div>
                             </div>
                         )}
@@ -860,6 +1768,66 @@ const ProfileEditor: React.FC = () => {
                             <div className="space-y-5 animate-fade-in">
                                 <PanelHeader title="Cover & Style Settings" onClose={() => setActiveTab(null)} />
 
+                                <AccessibilityPanel profile={formData} onFix={handleContrastFix} />
+
+                                {/* Theme Gallery */}
+                                <div>
+                                    <label className={labelClass}>Themes</label>
+                                    <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide">
+                                        {[...THEME_PRESETS, ...(formData.custom_themes || [])].map(theme => {
+                                            const isCustom = !THEME_PRESETS.includes(theme);
+                                            const isActive = isThemeApplied(formData, theme);
+                                            return (
+                                                <div key={theme.id} className="relative shrink-0 group">
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => handleApplyTheme(theme)}
+                                                        className={`w-24 rounded-lg overflow-hidden border-2 transition-colors text-left ${isActive ? 'border-gold' : 'border-zinc-800 hover:border-zinc-600'}`}
+                                                        title={`Apply ${theme.name}`}
+                                                    >
+                                                        <div className="h-14 p-2 flex flex-col justify-between" style={{ backgroundColor: theme.background_color, fontFamily: theme.font_family }}>
+                                                            <div className="flex items-center gap-1">
+                                                                <span className={`w-3 h-3 ${theme.card_shape} border`} style={{ backgroundColor: theme.card_color, borderColor: theme.theme_color }} />
+                                                                <span className="text-[8px] font-bold truncate" style={{ color: theme.card_text_color }}>Aa</span>
+                                                            </div>
+                                                            <span className={`h-2.5 w-full ${theme.main_button.shape}`} style={{ backgroundColor: theme.main_button.backgroundColor }} />
+                                                            <span className={`h-2 w-full ${theme.link_button.shape} ${theme.link_button.border ? 'border border-white/20' : ''}`} style={{ backgroundColor: theme.link_button.backgroundColor }} />
+                                                        </div>
+                                                        <div className="bg-zinc-800 px-1.5 py-1 text-[10px] text-zinc-300 truncate">{theme.name}</div>
+                                                    </button>
+                                                    {isCustom && (
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => handleDeleteTheme(theme.id)}
+                                                            className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-zinc-900 border border-zinc-700 text-[9px] text-red-400 hover:border-red-400 focus:outline-none focus:ring-2 focus:ring-red-400 flex items-center justify-center"
+                                                            title="Delete theme"
+                                                            aria-label={`Delete theme ${theme.name}`}
+                                                        >
+                                                            ✕
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                    <div className="flex gap-2 mt-1">
+                                        <input
+                                            type="text"
+                                            data-no-undo
+                                            value={newThemeName}
+                                            onChange={(e) => setNewThemeName(e.target.value)}
+                                            onKeyDown={(e) => { if (e.key === 'Enter') handleSaveTheme(); }}
+                                            placeholder="Name this look, e.g. Event Night"
+                                            className={inputClass}
+                                            maxLength={30}
+                                        />
+                                        <button onClick={handleSaveTheme} disabled={!newThemeName.trim()} className="shrink-0 text-[10px] bg-zinc-800 text-white border border-zinc-600 px-3 rounded font-bold hover:bg-zinc-700 disabled:opacity-40">
+                                            Save Current Look
+                                        </button>
+                                    </div>
+                                    <p className="text-[10px] text-zinc-500 mt-1">Applying a theme restyles your main button and all buttons & icons.</p>
+                                </div>
+
                                 {/* Cover Image Section */}
                                 <div>
                                     <label className={labelClass}>Cover Image</label>
@@ -916,11 +1884,26 @@ const ProfileEditor: React.FC = () => {
                 <div className="flex-1 overflow-y-auto scrollbar-hide pb-32 md:pb-0">
                     <div className="min-h-full py-8 flex justify-center">
                         <div className={`transition-all duration-300 ${previewMode === 'mobile' ? 'w-full max-w-md' : 'w-full'}`}>
-                            <PublicProfile profileData={formData} isInteractive={isLinksInteractive} />
+                            <PublicProfile profileData={formData} isInteractive={isLinksInteractive} onReorder={reorderElements} />
                         </div>
                     </div>
                 </div>
             </div>
+            {cropFile && (
+                <ImageCropper
+                    file={cropFile}
+                    shape={formData.card_shape || 'rounded-lg'}
+                    onShapeChange={shape => setFormData(prev => ({ ...prev, card_shape: shape }))}
+                    onCancel={() => setCropFile(null)}
+                    onConfirm={handleCrop}
+                />
+            )}
+            {mergeConflict && (
+                <MergeConflictDialog conflicts={mergeConflict.conflicts} onResolve={resolveMergeConflict} />
+            )}
+            {showHistory && id && (
+                <VersionHistoryPanel profileId={id} current={formData} onRestore={restoreVersion} onClose={() => setShowHistory(false)} />
+            )}
         </div>
     );
 };
@@ -1,20 +1,54 @@
 
-import React, { useEffect, useState, useRef } from 'react';
-import { useParams } from 'react-router-dom';
-import { getSupabase } from '../lib/supabase';
-import { Profile, CustomButtonElement } from '../types';
+import React, { useEffect, useState, useRef, useMemo } from 'react';
+import { useParams, useLocation, useNavigate } from 'react-router-dom';
+import { Reorder } from 'framer-motion';
+import { Profile, CustomButtonElement, ProfileEventType, ProfileSource } from '../types';
 import { SOCIAL_ICONS } from '../constants';
-import { generateVCardContent } from '../utils/vcardGenerator';
+import { generateVCardContent, generateVCardWithMedia } from '../utils/vcardGenerator';
+import { getAddress, formatAddress, getPhones, getEmails, toWhatsAppUrl } from '../utils/profileFormat';
+import LeadCaptureForm from './LeadCaptureForm';
+import ContentBlock from './ContentBlock';
+import { trackEvent } from '../utils/analytics';
+import { parseProfileSource, SOURCE_PARAM } from '../utils/profileUrl';
+import { getProfileMeta, applyDocumentMeta } from '../utils/profileMeta';
+import { isContentBlock } from '../utils/blocks';
+import { hasSchedule, isScheduledVisible } from '../utils/schedule';
+import { fetchProfileBySlug, getRememberedPin, ProfileAccessStatus } from '../utils/visibility';
+import PinGate from './PinGate';
+import { getProfileLocales, pickLocale, localizeProfile, getLocaleName } from '../utils/translations';
+import { getImageSrcSet } from '../utils/imageProcessing';
+
+const PHONE_ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="currentColor"><path d="M6.62 10.79a15.05 15.05 0 006.59 6.59l2.2-2.2a1 1 0 011.01-.24 11.36 11.36 0 003.58.57 1 1 0 011 1V20a1 1 0 01-1 1A17 17 0 013 4a1 1 0 011-1h3.5a1 1 0 011 1c0 1.25.2 2.45.57 3.58a1 1 0 01-.25 1.01l-2.2 2.2z"/></svg>`;
+const MAIL_ICON = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="currentColor"><path d="M20 4H4a2 2 0 00-2 2v12a2 2 0 002 2h16a2 2 0 002-2V6a2 2 0 00-2-2zm0 4l-8 5-8-5V6l8 5 8-5v2z"/></svg>`;
+const PHONE_LABELS: Record<string, string> = { cell: 'Mobile', work: 'Office', home: 'Home', fax: 'Fax', whatsapp: 'WhatsApp' };
+const EMAIL_LABELS: Record<string, string> = { work: 'Work', home: 'Personal', other: 'Email' };
 
 interface PublicProfileProps {
   profileData?: Partial<Profile> | null;
   isInteractive?: boolean; // When false, links/buttons are not clickable (preview mode)
+  onReorder?: (orderedIds: string[]) => void; // Editor preview: enables drag-to-reorder when not interactive
 }
 
-const PublicProfile: React.FC<PublicProfileProps> = ({ profileData, isInteractive = true }) => {
+const PublicProfile: React.FC<PublicProfileProps> = ({ profileData, isInteractive = true, onReorder }) => {
   const { slug } = useParams<{ slug: string }>();
-  const [profile, setProfile] = useState<Partial<Profile> | null>(profileData || null);
+  const location = useLocation();
+  const navigate = useNavigate();
+  // nfc / qr / direct, captured on first render - the marker is then dropped from the address bar
+  const sourceRef = useRef<ProfileSource>(parseProfileSource(location.search));
+  const [sourceProfile, setProfile] = useState<Partial<Profile> | null>(profileData || null);
   const [loading, setLoading] = useState(!profileData);
+  const [access, setAccess] = useState<ProfileAccessStatus>('ok');
+
+  // Visitor's language: their explicit pick, else the first browser language the card offers
+  const locales = useMemo(() => (sourceProfile ? getProfileLocales(sourceProfile) : []), [sourceProfile]);
+  const [chosenLocale, setChosenLocale] = useState<string | null>(null);
+  const locale = chosenLocale && locales.includes(chosenLocale)
+    ? chosenLocale
+    : pickLocale(locales, typeof navigator !== 'undefined' ? navigator.languages || [navigator.language] : []);
+  const profile = useMemo(
+    () => (sourceProfile ? localizeProfile(sourceProfile, locale) : null),
+    [sourceProfile, locale]
+  );
   const mounted = useRef(true);
 
   // Helper to calculate expiry days
@@ -41,6 +75,12 @@ const PublicProfile: React.FC<PublicProfileProps> = ({ profileData, isInteractiv
   const isExpired = daysUntilExpiry <= 0;
   const isWarning = daysUntilExpiry <= 45 && !isExpired; // Increased to 45 days
 
+  // A retired slug (old QR / NFC tag) resolves to the profile - move the address bar to its current one.
+  // The ?src= marker is already captured in sourceRef, so it isn't carried over
+  const followCurrentSlug = (p: Partial<Profile>) => {
+    if (p.profile_slug && p.profile_slug !== slug) navigate(`/p/${p.profile_slug}`, { replace: true });
+  };
+
   useEffect(() => {
     mounted.current = true;
 
@@ -58,25 +98,18 @@ const PublicProfile: React.FC<PublicProfileProps> = ({ profileData, isInteractiv
 
     const fetchProfile = async () => {
       try {
-        // Attempt to fetch profile by slug
-        // We use .select().limit(1) and then check array length for maximum robustness
-        // vs .maybeSingle() which implies 0 or 1 row logic that sometimes varies by library version
-        const { data, error } = await getSupabase()
-          .from('profiles')
-          .select('*')
-          .eq('profile_slug', slug)
-          .limit(1);
-
-        if (error) {
-          console.error("Supabase error fetching profile:", error);
-          throw error;
-        }
+        // Goes through get_public_profile so PIN-protected cards are never sent without the PIN
+        const rememberedPin = getRememberedPin(slug);
+        const result = await fetchProfileBySlug(slug, rememberedPin);
 
         if (mounted.current) {
-          if (data && data.length > 0) {
-            setProfile(data[0]);
+          // A remembered PIN that stopped working (owner changed it) just asks again
+          setAccess(result.status === 'pin_invalid' && rememberedPin ? 'pin_required' : result.status);
+          if (result.profile) {
+            setProfile(result.profile);
+            followCurrentSlug(result.profile);
           } else {
-            console.log("No profile found for slug:", slug);
+            console.log("Profile not available for slug:", slug, result.status);
             setProfile(null);
           }
         }
@@ -107,8 +140,85 @@ const PublicProfile: React.FC<PublicProfileProps> = ({ profileData, isInteractiv
     };
   }, [slug, profileData]);
 
+  // Analytics are only recorded for real visits - never for the editor preview (profileData)
+  const track = (profileId: string | undefined, eventType: ProfileEventType, elementId: string | null = null) => {
+    if (!profileData) trackEvent(profileId, eventType, elementId, sourceRef.current);
+  };
+
+  // So a link copied after scanning/tapping and shared on is counted as direct
+  useEffect(() => {
+    if (profileData || !new URLSearchParams(location.search).has(SOURCE_PARAM)) return;
+    navigate(location.pathname, { replace: true });
+  }, []);
+
+  useEffect(() => {
+    if (profile?.id && !isExpired) track(profile.id, 'view');
+  }, [profile?.id, isExpired]);
+
+  useEffect(() => {
+    if (profileData || !profile) return;
+    return applyDocumentMeta(getProfileMeta(profile));
+  }, [profile, profileData]);
+
+  useEffect(() => {
+    if (profileData || !profile) return;
+    const previous = document.documentElement.lang;
+    document.documentElement.lang = locale;
+    return () => { document.documentElement.lang = previous; };
+  }, [locale, profile, profileData]);
+
+  // The service worker answers from its offline copy first; reload once it has fetched a newer one
+  useEffect(() => {
+    if (profileData || !slug || !('serviceWorker' in navigator)) return;
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type !== 'profile-updated' || event.data.slug !== slug) return;
+      fetchProfileBySlug(slug, getRememberedPin(slug))
+        .then(result => { if (mounted.current && result.profile) setProfile(result.profile); })
+        .catch(() => { /* keep showing the cached copy */ });
+    };
+    navigator.serviceWorker.addEventListener('message', onMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', onMessage);
+  }, [slug, profileData]);
+
+  // Re-check scheduled buttons every minute so windows open and close while the page is open
+  const [now, setNow] = useState(() => new Date());
+  const hasScheduled = Boolean(profile?.custom_elements?.some(hasSchedule));
+  useEffect(() => {
+    if (!hasScheduled) return;
+    const timer = window.setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => window.clearInterval(timer);
+  }, [hasScheduled]);
+
+  // Build the vCard with its images up front - "Save Contact" has to download synchronously,
+  // iOS Safari blocks the file once the tap's user activation has passed
+  const vCardRef = useRef<{ profile: Partial<Profile>; content: string } | null>(null);
+  useEffect(() => {
+    if (profileData || !profile || profile.card_type === 'standie') return;
+    let cancelled = false;
+    generateVCardWithMedia(profile, { version: '3.0', includeLogo: true })
+      .then(content => { if (!cancelled) vCardRef.current = { profile, content }; })
+      .catch(() => { /* best effort - the click falls back to linked images */ });
+    return () => { cancelled = true; };
+  }, [profile, profileData]);
+
+  const handleUnlock = async (pin: string) => {
+    if (!slug) return;
+    try {
+      const result = await fetchProfileBySlug(slug, pin);
+      setAccess(result.status);
+      if (result.profile) {
+        setProfile(result.profile);
+        followCurrentSlug(result.profile);
+      }
+    } catch (err) {
+      console.error("Error unlocking profile:", err);
+      alert("Could not check the PIN. Please try again.");
+    }
+  };
+
   const handleDownloadVCard = (e: React.MouseEvent) => {
     if (!profile) return;
+    track(profile.id, 'main_click');
 
     if (profile.card_type === 'standie' && profile.custom_button_url) {
       return;
@@ -117,8 +227,10 @@ const PublicProfile: React.FC<PublicProfileProps> = ({ profileData, isInteractiv
     e.preventDefault();
 
     try {
-      const vCardString = generateVCardContent(profile);
-      const blob = new Blob([vCardString], { type: 'text/vcard' });
+      // Not built yet (slow photo, or the editor preview): same card with the images as links
+      const prepared = vCardRef.current?.profile === profile ? vCardRef.current.content : null;
+      const vCardString = prepared ?? generateVCardContent(profile, { version: '3.0' });
+      const blob = new Blob([vCardString], { type: 'text/vcard;charset=utf-8' });
       const url = window.URL.createObjectURL(blob);
 
       const link = document.createElement('a');
@@ -127,7 +239,7 @@ const PublicProfile: React.FC<PublicProfileProps> = ({ profileData, isInteractiv
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
-      window.URL.revokeObjectURL(url);
+      setTimeout(() => window.URL.revokeObjectURL(url), 1000); // Safari may still be reading it
     } catch (e) {
       console.error("Error generating vCard", e);
       alert("Could not generate contact file.");
@@ -167,6 +279,23 @@ const PublicProfile: React.FC<PublicProfileProps> = ({ profileData, isInteractiv
     );
   }
 
+  if (!profile && (access === 'pin_required' || access === 'pin_invalid' || access === 'locked')) {
+    return <PinGate status={access} onSubmit={handleUnlock} />;
+  }
+
+  if (!profile && access === 'disabled') {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-zinc-950 px-4 text-center">
+        <div className="w-16 h-16 bg-zinc-900 rounded-full flex items-center justify-center mb-4">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-zinc-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" /></svg>
+        </div>
+        <h2 className="text-xl font-bold text-white mb-2">Profile Unavailable</h2>
+        <p className="text-zinc-400 mb-6 max-w-md">This card has been switched off by its owner.</p>
+        <a href="/" className="text-gold hover:underline">Go to Home</a>
+      </div>
+    );
+  }
+
   if (!profile) {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center bg-zinc-950 px-4 text-center">
@@ -190,10 +319,116 @@ const PublicProfile: React.FC<PublicProfileProps> = ({ profileData, isInteractiv
     color: profile.card_text_color || '#ffffff',
   };
 
+  const formattedAddress = formatAddress(getAddress(profile));
+
+  // Tap-to-call / tap-to-mail actions, preferred entries first
+  const contactActions = [
+    ...getPhones(profile).map(p => ({
+      id: p.id,
+      preferred: p.preferred,
+      label: PHONE_LABELS[p.type] || 'Phone',
+      value: p.number,
+      href: p.type === 'fax' ? null : p.type === 'whatsapp' ? toWhatsAppUrl(p.number) : `tel:${p.number.replace(/[^\d+]/g, '')}`,
+      icon: p.type === 'whatsapp' ? SOCIAL_ICONS.whatsapp : PHONE_ICON,
+    })),
+    ...getEmails(profile).map(e => ({
+      id: e.id,
+      preferred: e.preferred,
+      label: EMAIL_LABELS[e.type] || 'Email',
+      value: e.address,
+      href: `mailto:${e.address.trim()}`,
+      icon: MAIL_ICON,
+    })),
+  ].sort((a, b) => Number(b.preferred) - Number(a.preferred));
+
   const backgroundSettings = profile.background_settings || { zoom: 1, offsetX: 50, offsetY: 50 };
 
-  const actionButtons = profile.custom_elements?.filter(e => e.type === 'link') || [];
-  const socialButtons = profile.custom_elements?.filter(e => e.type === 'social') || [];
+  const visibleElements = profile.custom_elements?.filter(e => isScheduledVisible(e, now)) || [];
+  // Link buttons and content blocks share one vertical stack, in editor order
+  const stackElements = visibleElements.filter(e => e.type !== 'social');
+  const socialButtons = visibleElements.filter(e => e.type === 'social');
+  // In the editor preview, elements can be dragged straight into a new order
+  const sortable = !!onReorder && !isInteractive;
+
+  const renderStackElement = (btn: CustomButtonElement) => (
+    isContentBlock(btn) ? (
+      <ContentBlock
+        key={btn.id}
+        block={btn}
+        textColor={profile.card_text_color || '#ffffff'}
+        accentColor={profile.theme_color || '#d7ba52'}
+        isInteractive={isInteractive}
+      />
+    ) : isInteractive ? (
+      <a
+        key={btn.id}
+        href={btn.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className={`block w-full py-3 px-4 font-semibold text-center transition-all duration-300 hover:scale-[1.03] active:scale-[0.98] flex items-center justify-center gap-2 ${btn.style.shape} ${btn.style.shadow ? 'shadow-md hover:shadow-lg' : ''} ${btn.style.border ? 'border border-white/20' : ''}`}
+        style={{
+          backgroundColor: btn.style.backgroundColor,
+          color: btn.style.textColor,
+        }}
+        title={`Click to open: ${btn.label}`}
+        onClick={() => track(profile.id, 'button_click', btn.id)}
+      >
+        {btn.label}
+      </a>
+    ) : (
+      <div
+        key={btn.id}
+        className={`block w-full py-3 px-4 font-semibold text-center flex items-center justify-center gap-2 ${btn.style.shape} ${btn.style.shadow ? 'shadow-md' : ''} ${btn.style.border ? 'border border-white/20' : ''}`}
+        style={{
+          backgroundColor: btn.style.backgroundColor,
+          color: btn.style.textColor,
+          cursor: sortable ? undefined : 'default'
+        }}
+      >
+        {btn.label}
+      </div>
+    )
+  );
+
+  const renderSocialButton = (btn: CustomButtonElement) => (
+    isInteractive ? (
+      <a
+        key={btn.id}
+        href={btn.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="w-12 h-12 rounded-full flex items-center justify-center bg-zinc-800/80 hover:scale-125 active:scale-95 transition-all duration-300 shadow-lg hover:shadow-2xl animate-pulse-subtle"
+        style={{
+          backgroundColor: btn.style.backgroundColor,
+          color: btn.style.textColor
+        }}
+        title={`Open ${btn.label}`}
+        onClick={() => track(profile.id, 'social_click', btn.id)}
+      >
+        {btn.iconUrl ? (
+          <img src={btn.iconUrl} alt={btn.label} className="w-full h-full object-cover rounded-full" />
+        ) : (
+          <div className="w-6 h-6" dangerouslySetInnerHTML={{ __html: SOCIAL_ICONS[btn.subtype || 'website'] || SOCIAL_ICONS['custom'] }} />
+        )}
+      </a>
+    ) : (
+      <div
+        key={btn.id}
+        className="w-12 h-12 rounded-full flex items-center justify-center bg-zinc-800/80 shadow-lg"
+        style={{
+          backgroundColor: btn.style.backgroundColor,
+          color: btn.style.textColor,
+          cursor: 'default'
+        }}
+      >
+        {btn.iconUrl ? (
+          <img src={btn.iconUrl} alt={btn.label} className="w-full h-full object-cover rounded-full" />
+        ) : (
+          <div className="w-6 h-6" dangerouslySetInnerHTML={{ __html: SOCIAL_ICONS[btn.subtype || 'website'] || SOCIAL_ICONS['custom'] }} />
+        )}
+      </div>
+    )
+  );
 
   const isStandie = profile.card_type === 'standie';
   const mainButtonUrl = isStandie
@@ -224,9 +459,25 @@ const PublicProfile: React.FC<PublicProfileProps> = ({ profileData, isInteractiv
         className="w-full h-48 md:h-64 bg-zinc-800 relative overflow-hidden shrink-0"
         style={{ backgroundColor: profile.theme_color || '#d7ba52' }}
       >
+        {locales.length > 1 && (
+          <div className="absolute top-3 right-3 z-20 flex bg-black/50 backdrop-blur-sm rounded-full p-0.5 border border-white/10">
+            {locales.map(code => (
+              <button
+                key={code}
+                onClick={() => setChosenLocale(code)}
+                lang={code}
+                className={`px-2.5 py-1 text-[11px] font-bold rounded-full transition-colors ${code === locale ? 'bg-white text-black' : 'text-white/80 hover:text-white'}`}
+              >
+                {getLocaleName(code)}
+              </button>
+            ))}
+          </div>
+        )}
         {profile.background_photo_url && (
           <img
             src={profile.background_photo_url}
+            srcSet={getImageSrcSet(profile.background_photo_url, 'cover')}
+            sizes="100vw"
             alt=""
             className="absolute top-0 left-0 w-full h-full object-cover"
             style={{
@@ -240,12 +491,18 @@ const PublicProfile: React.FC<PublicProfileProps> = ({ profileData, isInteractiv
       <div className="max-w-2xl w-full px-4 -mt-20 md:-mt-24 mb-12 z-10 flex flex-col items-center text-center">
         <img
           src={profile.profile_photo_url || `https://ui-avatars.com/api/?name=${encodeURIComponent(profile.full_name || 'User')}&size=128`}
+          srcSet={getImageSrcSet(profile.profile_photo_url, 'profile')}
+          sizes="(min-width: 768px) 160px, 128px"
           alt={profile.full_name}
           className={`w-32 h-32 md:w-40 md:h-40 bg-zinc-800 border-4 border-white shadow-2xl object-cover ${profile.card_shape || 'rounded-lg'}`}
         />
 
         <h1 className="text-2xl md:text-3xl font-bold mt-4" style={textStyle}>{profile.full_name}</h1>
 
+        {profile.job_title && (
+          <p className="text-base font-medium mt-1 opacity-80" style={textStyle}>{profile.job_title}</p>
+        )}
+
         {profile.company && (
           <p className="text-xl font-medium mt-1 opacity-90" style={textStyle}>{profile.company}</p>
         )}
@@ -254,6 +511,37 @@ const PublicProfile: React.FC<PublicProfileProps> = ({ profileData, isInteractiv
           <p className="mt-2 max-w-lg opacity-80" style={textStyle}>{profile.bio}</p>
         )}
 
+        {contactActions.length > 0 && (
+          <div className="mt-5 flex flex-wrap justify-center gap-2 w-full max-w-md">
+            {contactActions.map(action => {
+              const content = (
+                <>
+                  <span className="w-4 h-4 shrink-0" dangerouslySetInnerHTML={{ __html: action.icon }} />
+                  <span className="text-xs font-medium truncate max-w-[180px]">{action.value}</span>
+                </>
+              );
+              const className = "flex items-center gap-1.5 px-3 py-1.5 rounded-full border border-white/15 bg-black/20 backdrop-blur-sm";
+              return isInteractive && action.href ? (
+                <a
+                  key={action.id}
+                  href={action.href}
+                  target={action.href.startsWith('http') ? '_blank' : undefined}
+                  rel={action.href.startsWith('http') ? 'noopener noreferrer' : undefined}
+                  className={`${className} transition-all duration-300 hover:scale-[1.03] active:scale-[0.98]`}
+                  style={textStyle}
+                  title={`${action.label}: ${action.value}`}
+                >
+                  {content}
+                </a>
+              ) : (
+                <div key={action.id} className={className} style={{ ...textStyle, cursor: 'default' }} title={`${action.label}: ${action.value}`}>
+                  {content}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         <div className="mt-8 w-full max-w-md space-y-4">
           {isInteractive ? (
             <a
@@ -284,91 +572,39 @@ const PublicProfile: React.FC<PublicProfileProps> = ({ profileData, isInteractiv
             </div>
           )}
 
-          {actionButtons.map((btn: CustomButtonElement) => (
-            isInteractive ? (
-              <a
-                key={btn.id}
-                href={btn.url}
-                target="_blank"
-                rel="noopener noreferrer"
-                className={`block w-full py-3 px-4 font-semibold text-center transition-all duration-300 hover:scale-[1.03] active:scale-[0.98] flex items-center justify-center gap-2 ${btn.style.shape} ${btn.style.shadow ? 'shadow-md hover:shadow-lg' : ''} ${btn.style.border ? 'border border-white/20' : ''}`}
-                style={{
-                  backgroundColor: btn.style.backgroundColor,
-                  color: btn.style.textColor,
-                }}
-                title={`Click to open: ${btn.label}`}
-              >
-                {btn.label}
-              </a>
-            ) : (
-              <div
-                key={btn.id}
-                className={`block w-full py-3 px-4 font-semibold text-center flex items-center justify-center gap-2 ${btn.style.shape} ${btn.style.shadow ? 'shadow-md' : ''} ${btn.style.border ? 'border border-white/20' : ''}`}
-                style={{
-                  backgroundColor: btn.style.backgroundColor,
-                  color: btn.style.textColor,
-                  cursor: 'default'
-                }}
-              >
-                {btn.label}
-              </div>
-            )
-          ))}
+          {sortable ? (
+            <Reorder.Group as="div" axis="y" values={stackElements.map(e => e.id)} onReorder={onReorder} className="space-y-4">
+              {stackElements.map((btn: CustomButtonElement) => (
+                <Reorder.Item key={btn.id} as="div" value={btn.id} className="cursor-grab active:cursor-grabbing touch-none" whileDrag={{ scale: 1.03, zIndex: 10 }} style={{ position: 'relative' }}>
+                  {renderStackElement(btn)}
+                </Reorder.Item>
+              ))}
+            </Reorder.Group>
+          ) : stackElements.map(renderStackElement)}
         </div>
 
         {socialButtons.length > 0 && (
           <div className="mt-8 flex flex-wrap justify-center gap-4 w-full max-w-md">
-            {socialButtons.map((btn: CustomButtonElement) => (
-              isInteractive ? (
-                <a
-                  key={btn.id}
-                  href={btn.url}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="w-12 h-12 rounded-full flex items-center justify-center bg-zinc-800/80 hover:scale-125 active:scale-95 transition-all duration-300 shadow-lg hover:shadow-2xl animate-pulse-subtle"
-                  style={{
-                    backgroundColor: btn.style.backgroundColor,
-                    color: btn.style.textColor
-                  }}
-                  title={`Open ${btn.label}`}
-                >
-                  {btn.iconUrl ? (
-                    <img src={btn.iconUrl} alt={btn.label} className="w-full h-full object-cover rounded-full" />
-                  ) : (
-                    <div className="w-6 h-6" dangerouslySetInnerHTML={{ __html: SOCIAL_ICONS[btn.subtype || 'website'] || SOCIAL_ICONS['custom'] }} />
-                  )}
-                </a>
-              ) : (
-                <div
-                  key={btn.id}
-                  className="w-12 h-12 rounded-full flex items-center justify-center bg-zinc-800/80 shadow-lg"
-                  style={{
-                    backgroundColor: btn.style.backgroundColor,
-                    color: btn.style.textColor,
-                    cursor: 'default'
-                  }}
-                >
-                  {btn.iconUrl ? (
-                    <img src={btn.iconUrl} alt={btn.label} className="w-full h-full object-cover rounded-full" />
-                  ) : (
-                    <div className="w-6 h-6" dangerouslySetInnerHTML={{ __html: SOCIAL_ICONS[btn.subtype || 'website'] || SOCIAL_ICONS['custom'] }} />
-                  )}
-                </div>
-              )
-            ))}
+            {/* Not drag-sortable here: Reorder works on one axis and can't follow wrapped rows.
+                The editor's social list reorders them (drag handle or arrow keys) */}
+            {socialButtons.map(renderSocialButton)}
           </div>
         )}
+
+        {profile.lead_capture?.enabled && !isStandie && (
+          <LeadCaptureForm profile={profile} isInteractive={isInteractive} />
+        )}
       </div>
 
       <div className="pb-8 text-sm text-zinc-500 text-center space-y-4">
         {/* Business Details Footer */}
-        {(profile.gst_number || profile.billing_address) && (
+        {(profile.gst_number || formattedAddress) && (
           <div className="flex flex-col items-center gap-1 opacity-70">
             {profile.gst_number && (
               <p className="text-[10px] uppercase tracking-wider font-medium">GST No: <span className="text-zinc-400 font-mono">{profile.gst_number}</span></p>
             )}
-            {profile.billing_address && (
-              <p className="text-[10px] max-w-xs whitespace-pre-line leading-snug">{profile.billing_address}</p>
+            {formattedAddress && (
+              <p className="text-[10px] max-w-xs whitespace-pre-line leading-snug">{formattedAddress}</p>
             )}
           </div>
         )}
@@ -0,0 +1,27 @@
+import React from 'react';
+import { CustomButtonElement } from '../types';
+import { getScheduleState, describeSchedule } from '../utils/schedule';
+
+interface ScheduleBadgeProps {
+  element: CustomButtonElement;
+}
+
+const BADGES = {
+  live: { label: 'Live', className: 'bg-green-900/40 text-green-400 border-green-800' },
+  upcoming: { label: 'Upcoming', className: 'bg-blue-900/40 text-blue-300 border-blue-800' },
+  paused: { label: 'Off hours', className: 'bg-zinc-900 text-zinc-400 border-zinc-700' },
+  expired: { label: 'Expired', className: 'bg-red-900/30 text-red-400 border-red-900' },
+};
+
+const ScheduleBadge: React.FC<ScheduleBadgeProps> = ({ element }) => {
+  const state = getScheduleState(element);
+  if (state === 'always') return null;
+  const badge = BADGES[state];
+  return (
+    <span title={describeSchedule(element)} className={`text-[9px] uppercase tracking-wide font-bold border rounded px-1.5 py-0.5 shrink-0 ${badge.className}`}>
+      {badge.label}
+    </span>
+  );
+};
+
+export default ScheduleBadge;
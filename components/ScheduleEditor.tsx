@@ -0,0 +1,80 @@
+import React from 'react';
+import { CustomButtonElement } from '../types';
+import { DAY_LABELS, hasSchedule, describeSchedule } from '../utils/schedule';
+
+interface ScheduleEditorProps {
+  element: CustomButtonElement;
+  onChange: (field: 'activeFrom' | 'activeUntil' | 'activeDays' | 'activeHours', value: any) => void;
+  inputClass: string;
+  labelClass: string;
+}
+
+const ScheduleEditor: React.FC<ScheduleEditorProps> = ({ element, onChange, inputClass, labelClass }) => {
+  const days = element.activeDays || [];
+  const invalidRange = Boolean(element.activeFrom && element.activeUntil && element.activeUntil <= element.activeFrom);
+
+  const toggleDay = (day: number) => {
+    const next = days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort((a, b) => a - b);
+    onChange('activeDays', next.length ? next : null);
+  };
+
+  const clearAll = () => {
+    onChange('activeFrom', null);
+    onChange('activeUntil', null);
+    onChange('activeDays', null);
+    onChange('activeHours', null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <label className={labelClass}>Schedule</label>
+        {hasSchedule(element) && <button type="button" onClick={clearAll} className="text-[10px] text-zinc-500 hover:text-white">Always show</button>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-[10px] text-zinc-500">Show from</label>
+          <input type="datetime-local" value={element.activeFrom || ''} onChange={(e) => onChange('activeFrom', e.target.value || null)} className={inputClass} />
+        </div>
+        <div>
+          <label className="text-[10px] text-zinc-500">Hide after</label>
+          <input type="datetime-local" value={element.activeUntil || ''} onChange={(e) => onChange('activeUntil', e.target.value || null)} className={`${inputClass} ${invalidRange ? '!border-red-500' : ''}`} />
+        </div>
+      </div>
+      {invalidRange && <p className="text-[10px] text-red-400">The end must be after the start.</p>}
+
+      <div>
+        <label className="text-[10px] text-zinc-500">Days (none selected = every day)</label>
+        <div className="flex gap-1 mt-1">
+          {DAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleDay(day)}
+              className={`flex-1 py-1 text-[10px] font-bold rounded border transition-colors ${days.includes(day) ? 'bg-gold text-black border-gold' : 'bg-zinc-800 text-zinc-400 border-zinc-700 hover:text-white'}`}
+            >
+              {label.charAt(0)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input type="checkbox" checked={Boolean(element.activeHours)} onChange={(e) => onChange('activeHours', e.target.checked ? { start: '09:00', end: '17:00' } : null)} />
+        <label className="text-xs text-zinc-300">Only between</label>
+        {element.activeHours && (
+          <>
+            <input type="time" value={element.activeHours.start} onChange={(e) => onChange('activeHours', { ...element.activeHours!, start: e.target.value })} className={`${inputClass} !w-auto`} />
+            <span className="text-xs text-zinc-500">and</span>
+            <input type="time" value={element.activeHours.end} onChange={(e) => onChange('activeHours', { ...element.activeHours!, end: e.target.value })} className={`${inputClass} !w-auto`} />
+          </>
+        )}
+      </div>
+
+      {hasSchedule(element) && <p className="text-[10px] text-zinc-500">Shown {describeSchedule(element)}, in the visitor's local time.</p>}
+    </div>
+  );
+};
+
+export default ScheduleEditor;
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Profile } from '../types';
+import { getShareImageUrl, getShareUrl } from '../utils/profileUrl';
+import { useToast } from '../context/ToastContext';
+
+interface ShareImagePanelProps {
+  profile: Profile;
+}
+
+const ShareImagePanel: React.FC<ShareImagePanelProps> = ({ profile }) => {
+  const { showToast } = useToast();
+  const [downloading, setDownloading] = useState(false);
+  const [imageFailed, setImageFailed] = useState(false);
+
+  const imageUrl = getShareImageUrl(profile.profile_slug, profile.updated_at);
+  const shareUrl = getShareUrl(profile.profile_slug);
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      const res = await fetch(imageUrl);
+      if (!res.ok) throw new Error(`Share image responded ${res.status}`);
+      const url = window.URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${profile.profile_slug}-share.png`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Share image download error:', err);
+      showToast('Could not download the share image.', 'error');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(shareUrl).then(
+      () => showToast('Share link copied', 'success'),
+      () => showToast('Could not copy', 'error')
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-3 mb-6">
+        <div className="h-8 w-1 bg-gold rounded-full"></div>
+        <h2 className="text-xl font-bold text-white">Share on Social Media</h2>
+      </div>
+
+      <div className="bg-zinc-900 border border-zinc-800 rounded-2xl p-4 flex flex-col md:flex-row gap-6 items-center">
+        <div className="w-full md:w-1/2 aspect-[1200/630] rounded-xl overflow-hidden bg-zinc-950 border border-zinc-800 flex items-center justify-center">
+          {imageFailed ? (
+            <p className="text-xs text-zinc-600 px-4 text-center">Preview unavailable - it is generated once your profile is live.</p>
+          ) : (
+            <img src={imageUrl} alt="Share card preview" className="w-full h-full object-cover" onError={() => setImageFailed(true)} />
+          )}
+        </div>
+        <div className="flex-1 space-y-3 w-full">
+          <p className="text-sm text-zinc-400">
+            This card is shown when your link is pasted into WhatsApp, LinkedIn or X. It updates automatically whenever you save your profile.
+          </p>
+          <code className="block text-xs text-zinc-300 bg-zinc-950 border border-zinc-800 rounded px-3 py-2 truncate">{shareUrl}</code>
+          <div className="flex gap-2">
+            <button onClick={handleCopyLink} className="flex-1 px-4 py-2 rounded-lg text-sm font-bold border border-zinc-700 bg-zinc-800 text-zinc-200 hover:bg-zinc-700 transition-colors">
+              Copy Link
+            </button>
+            <button onClick={handleDownload} disabled={downloading || imageFailed} className="flex-1 px-4 py-2 rounded-lg text-sm font-bold bg-gold text-black hover:bg-gold-600 transition-colors disabled:opacity-50">
+              {downloading ? 'Downloading...' : 'Download Image'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareImagePanel;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Reorder, useDragControls } from 'framer-motion';
+
+interface SortableItemProps {
+  value: string; // Element id - must match the Reorder.Group `values`
+  label: string; // Read out for the drag handle
+  onMove: (direction: -1 | 1) => void; // Keyboard reordering, one step at a time
+  className?: string;
+  children: (handle: React.ReactNode) => React.ReactNode;
+}
+
+/**
+ * A row inside a framer-motion Reorder.Group that only drags from its handle,
+ * so inputs inside the row keep working. The handle also takes ↑/↓ keys.
+ */
+const SortableItem: React.FC<SortableItemProps> = ({ value, label, onMove, className, children }) => {
+  const controls = useDragControls();
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowUp' || e.key === 'ArrowLeft') {
+      e.preventDefault();
+      onMove(-1);
+    } else if (e.key === 'ArrowDown' || e.key === 'ArrowRight') {
+      e.preventDefault();
+      onMove(1);
+    }
+  };
+
+  const handle = (
+    <button
+      type="button"
+      onPointerDown={(e) => controls.start(e)}
+      onKeyDown={handleKeyDown}
+      aria-label={`Reorder ${label}. Use arrow keys to move.`}
+      title="Drag to reorder"
+      className="touch-none cursor-grab active:cursor-grabbing text-zinc-500 hover:text-white focus:text-gold focus:outline-none px-0.5 select-none"
+    >
+      <svg xmlns="http://www.w3.org/2000/svg" className="w-4 h-4" viewBox="0 0 24 24" fill="currentColor"><circle cx="9" cy="6" r="1.5" /><circle cx="15" cy="6" r="1.5" /><circle cx="9" cy="12" r="1.5" /><circle cx="15" cy="12" r="1.5" /><circle cx="9" cy="18" r="1.5" /><circle cx="15" cy="18" r="1.5" /></svg>
+    </button>
+  );
+
+  return (
+    <Reorder.Item
+      as="div"
+      value={value}
+      dragListener={false}
+      dragControls={controls}
+      className={className}
+      whileDrag={{ scale: 1.02, boxShadow: '0 8px 24px rgba(0,0,0,0.45)', zIndex: 10 }}
+      style={{ position: 'relative' }}
+    >
+      {children(handle)}
+    </Reorder.Item>
+  );
+};
+
+export default SortableItem;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Profile, ProfileTranslation } from '../types';
+import { SUPPORTED_LOCALES } from '../constants';
+import { getDefaultLocale, getTranslatableStrings, getTranslatedValue, setTranslatedValue, countMissing, getLocaleName } from '../utils/translations';
+
+interface TranslationEditorProps {
+  profile: Partial<Profile>;
+  onChange: (patch: Pick<Partial<Profile>, 'translations' | 'default_locale'>) => void;
+  inputClass: string;
+  labelClass: string;
+}
+
+const TranslationEditor: React.FC<TranslationEditorProps> = ({ profile, onChange, inputClass, labelClass }) => {
+  const defaultLocale = getDefaultLocale(profile);
+  const translations = profile.translations || {};
+  const added = Object.keys(translations).filter(code => code !== defaultLocale);
+  const [activeLocale, setActiveLocale] = useState<string | null>(added[0] || null);
+  const current = activeLocale && added.includes(activeLocale) ? activeLocale : added[0] || null;
+
+  const strings = getTranslatableStrings(profile);
+  const available = SUPPORTED_LOCALES.filter(l => l.code !== defaultLocale && !added.includes(l.code));
+
+  const addLocale = (code: string) => {
+    onChange({ translations: { ...translations, [code]: {} } });
+    setActiveLocale(code);
+  };
+
+  const removeLocale = (code: string) => {
+    if (!window.confirm(`Remove the ${getLocaleName(code)} translation?`)) return;
+    const { [code]: _removed, ...rest } = translations;
+    onChange({ translations: rest });
+  };
+
+  const updateTranslation = (code: string, next: ProfileTranslation) => {
+    onChange({ translations: { ...translations, [code]: next } });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Written In</label>
+          <select
+            value={defaultLocale}
+            onChange={(e) => {
+              // The old default can't stay a translation of itself
+              const { [e.target.value]: _promoted, ...rest } = translations;
+              onChange({ default_locale: e.target.value, translations: rest });
+            }}
+            className={inputClass}
+          >
+            {SUPPORTED_LOCALES.map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Add Language</label>
+          <select value="" onChange={(e) => e.target.value && addLocale(e.target.value)} disabled={available.length === 0} className={inputClass}>
+            <option value="">{available.length ? 'Choose...' : 'All added'}</option>
+            {available.map(l => <option key={l.code} value={l.code}>{l.name} ({l.nativeName})</option>)}
+          </select>
+        </div>
+      </div>
+
+      {added.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {added.map(code => {
+            const missing = countMissing(profile, code);
+            return (
+              <button
+                key={code}
+                type="button"
+                onClick={() => setActiveLocale(code)}
+                className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-bold border transition-colors ${code === current ? 'border-gold text-gold bg-gold/10' : 'border-zinc-700 text-zinc-300 hover:border-zinc-500'}`}
+              >
+                {getLocaleName(code)}
+                <span className={`text-[9px] px-1.5 rounded-full ${missing ? 'bg-red-900/50 text-red-300' : 'bg-green-900/50 text-green-400'}`}>
+                  {missing ? `${missing} missing` : 'Complete'}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {current && (
+        <div className="space-y-2">
+          {strings.length === 0 && <p className="text-xs text-zinc-500 italic">Add a bio, company or buttons first - they'll show up here to translate.</p>}
+          {strings.map(item => {
+            const value = getTranslatedValue(translations[current], item);
+            const props = {
+              value,
+              lang: current,
+              placeholder: item.source,
+              onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+                updateTranslation(current, setTranslatedValue(translations[current], item, e.target.value)),
+              className: `${inputClass} ${value.trim() ? '' : '!border-red-900/70'}`,
+            };
+            return (
+              <div key={item.key}>
+                <label className="text-[10px] text-zinc-500 flex justify-between gap-2">
+                  <span className="uppercase font-bold tracking-wide">{item.label}</span>
+                  <span className="truncate">{item.source}</span>
+                </label>
+                {item.multiline ? <textarea rows={3} {...props} /> : <input type="text" {...props} />}
+              </div>
+            );
+          })}
+          <div className="flex justify-between items-center pt-1">
+            <p className="text-[10px] text-zinc-500">Blank fields show the {getLocaleName(defaultLocale)} text.</p>
+            <button type="button" onClick={() => removeLocale(current)} className="text-[10px] text-red-400 hover:underline">Remove {getLocaleName(current)}</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranslationEditor;
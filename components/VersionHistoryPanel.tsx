@@ -0,0 +1,138 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Profile } from '../types';
+import { ProfileVersion, ProfileSnapshot, VERSION_KIND_LABELS, listVersions, getVersionData, diffSnapshots } from '../utils/versions';
+
+interface VersionHistoryPanelProps {
+  profileId: string;
+  current: Partial<Profile>; // What the editor shows right now
+  onRestore: (snapshot: ProfileSnapshot) => Promise<void>;
+  onClose: () => void;
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const Value: React.FC<{ text: string; className: string }> = ({ text, className }) => (
+  <span className={`block text-xs break-words line-clamp-3 ${text ? className : 'text-zinc-600 italic'}`}>{text || 'Not set'}</span>
+);
+
+const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({ profileId, current, onRestore, onClose }) => {
+  const [versions, setVersions] = useState<ProfileVersion[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [snapshots, setSnapshots] = useState<Record<string, ProfileSnapshot>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    listVersions(profileId)
+      .then(list => {
+        setVersions(list);
+        if (list[0]) setSelectedId(list[0].id);
+      })
+      .catch(err => {
+        console.error('Version history fetch failed:', err);
+        setError('Could not load the history.');
+        setVersions([]);
+      });
+  }, [profileId]);
+
+  useEffect(() => {
+    if (!selectedId || snapshots[selectedId]) return;
+    getVersionData(selectedId)
+      .then(data => setSnapshots(prev => ({ ...prev, [selectedId]: data })))
+      .catch(err => {
+        console.error('Version fetch failed:', err);
+        setError('Could not load this version.');
+      });
+  }, [selectedId, snapshots]);
+
+  const selected = selectedId ? snapshots[selectedId] : undefined;
+  // What restoring would change, read as "now -> this version"
+  const changes = useMemo(() => (selected ? diffSnapshots(current, selected) : []), [current, selected]);
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setRestoring(true);
+    try {
+      await onRestore(selected);
+      onClose();
+    } catch {
+      // The editor has already told the user why
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-3xl h-[80vh] bg-zinc-900 rounded-xl border border-zinc-700 shadow-2xl overflow-hidden flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
+          <div>
+            <h3 className="text-sm font-bold text-white">Version History</h3>
+            <p className="text-[10px] text-zinc-500">Saved on every Save, and every few minutes while autosaving</p>
+          </div>
+          <button onClick={onClose} className="p-1 bg-zinc-800 text-zinc-300 rounded-full hover:bg-zinc-700 hover:text-white transition-colors" aria-label="Close">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 flex flex-col md:flex-row min-h-0">
+          <div className="md:w-56 shrink-0 border-b md:border-b-0 md:border-r border-zinc-800 overflow-y-auto max-h-40 md:max-h-none">
+            {versions === null && <p className="text-xs text-zinc-500 p-4">Loading...</p>}
+            {versions?.length === 0 && !error && <p className="text-xs text-zinc-500 p-4">No versions yet. Press Save to keep one.</p>}
+            {versions?.map(v => (
+              <button
+                key={v.id}
+                onClick={() => setSelectedId(v.id)}
+                className={`w-full text-left px-4 py-2 border-b border-zinc-800/60 transition-colors ${selectedId === v.id ? 'bg-zinc-800 text-white' : 'text-zinc-400 hover:bg-zinc-800/50'}`}
+              >
+                <span className="block text-xs font-medium">{formatTime(v.created_at)}</span>
+                <span className={`text-[9px] uppercase tracking-wide font-bold ${v.kind === 'manual' ? 'text-gold' : 'text-zinc-500'}`}>{VERSION_KIND_LABELS[v.kind]}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 flex flex-col min-h-0">
+            <div className="flex-1 overflow-y-auto p-4">
+              {error && <p className="text-xs text-red-400 mb-3">{error}</p>}
+              {selectedId && !selected && !error && <p className="text-xs text-zinc-500">Loading version...</p>}
+              {selected && changes.length === 0 && <p className="text-xs text-zinc-500">Same as what you have now.</p>}
+              {selected && changes.length > 0 && (
+                <table className="w-full text-left">
+                  <thead>
+                    <tr className="text-[10px] uppercase tracking-wide text-zinc-500">
+                      <th className="pb-2 pr-3 font-bold w-1/4">Field</th>
+                      <th className="pb-2 pr-3 font-bold">Now</th>
+                      <th className="pb-2 font-bold">This version</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-zinc-800">
+                    {changes.map((c, i) => (
+                      <tr key={`${c.field}-${i}`} className="align-top">
+                        <td className="py-2 pr-3 text-xs text-zinc-300">{c.label}</td>
+                        <td className="py-2 pr-3"><Value text={c.before} className="text-red-300/80 line-through decoration-red-500/40" /></td>
+                        <td className="py-2"><Value text={c.after} className="text-green-300" /></td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+            <div className="px-4 py-3 border-t border-zinc-800 flex items-center justify-between gap-3">
+              <p className="text-[10px] text-zinc-500">Your current state is saved to the history before restoring, and Undo works too.</p>
+              <button
+                onClick={handleRestore}
+                disabled={!selected || changes.length === 0 || restoring}
+                className="shrink-0 text-xs font-bold px-4 py-2 rounded bg-gold text-black hover:bg-gold/90 disabled:opacity-40 transition-colors"
+              >
+                {restoring ? 'Restoring...' : 'Restore this version'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistoryPanel;
@@ -4,6 +4,7 @@ import { useNavigate } from 'react-router-dom';
 import type { Options, FileExtension, DotType, CornerSquareType, CornerDotType } from '../types';
 import { DOT_TYPES, CORNER_SQUARE_TYPES, CORNER_DOT_TYPES } from '../constants';
 import { getSupabase } from '../../lib/supabase';
+import { getProfileUrl, isProfileUrl } from '../../utils/profileUrl';
 
 declare const QRCodeStyling: any;
 
@@ -52,7 +53,7 @@ const QrCodeGenerator: React.FC = () => {
 
     useEffect(() => {
         if (profile) {
-            const defaultUrl = `https://www.canopycorp.in/#/p/${profile.profile_slug}`;
+            const defaultUrl = getProfileUrl(profile.profile_slug, 'qr');
             const friendlyLabel = `${profile.full_name}'s Profile`;
 
             setUrl(defaultUrl);
@@ -98,7 +99,7 @@ const QrCodeGenerator: React.FC = () => {
                                     // Optional: Select text on focus for easier replacement
                                 }}
                                 onBlur={() => {
-                                    if (profile && url === `https://www.canopycorp.in/#/p/${profile.profile_slug}`) {
+                                    if (profile && isProfileUrl(url, profile.profile_slug)) {
                                         setIsUsingDefault(true);
                                         setDisplayValue(`${profile.full_name}'s Profile`);
                                     }
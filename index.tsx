@@ -5,6 +5,19 @@ import App from './App';
 import { ToastProvider } from './context/ToastContext';
 import { PreviewProvider } from './context/PreviewContext';
 
+// /p/:slug share links are normally answered by api/profile-meta; if the SPA is
+// served there instead (e.g. `vite` dev server), forward to the hash route
+if (/^\/p\/[^/]+\/?$/.test(window.location.pathname)) {
+  window.location.replace(`/#${window.location.pathname.replace(/\/$/, '')}${window.location.search}`);
+}
+
+// Offline support for public profiles (public/sw.js). Dev builds skip it so HMR isn't cached
+if ('serviceWorker' in navigator && (import.meta as any).env?.PROD) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => console.warn('Service worker registration failed:', err));
+  });
+}
+
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
@@ -36,5 +36,477 @@ ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS custom_button_url text DEFA
 ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS custom_button_style jsonb DEFAULT null;
 ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS design_data jsonb DEFAULT '{}'::jsonb;
 
+-- Structured name, job title & address
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS honorific text DEFAULT null;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS given_name text DEFAULT null;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS middle_name text DEFAULT null;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS family_name text DEFAULT null;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS job_title text DEFAULT null;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS address jsonb DEFAULT null;
+
+-- Backfill existing rows the way splitFullName (utils/profileFormat.ts) does: a leading honorific
+-- (only with more words after it), then first word = given, last word = surname, the rest middle.
+-- Users can correct it in the editor. Keep the list in step with HONORIFICS.
+WITH parsed AS (
+  SELECT id, hon, CASE WHEN hon IS NULL THEN name ELSE regexp_replace(name, '^\S+\s+', '') END AS rest
+  FROM (
+    SELECT id, trim(full_name) AS name,
+      CASE WHEN trim(full_name) ~ '\s'
+        AND substring(trim(full_name) from '^\S+') = ANY (ARRAY['Mr.', 'Ms.', 'Mrs.', 'Dr.', 'Prof.', 'Adv.', 'CA', 'Er.'])
+      THEN substring(trim(full_name) from '^\S+') END AS hon
+    FROM public.profiles
+    WHERE given_name IS NULL AND family_name IS NULL AND coalesce(trim(full_name), '') <> ''
+  ) n
+)
+UPDATE public.profiles p SET
+  honorific = parsed.hon,
+  given_name = substring(parsed.rest from '^\S+'),
+  family_name = CASE WHEN parsed.rest ~ '\s' THEN substring(parsed.rest from '\S+$') ELSE null END,
+  middle_name = nullif(trim(regexp_replace(regexp_replace(parsed.rest, '^\S+\s*', ''), '\s*\S+$', '')), '')
+FROM parsed WHERE p.id = parsed.id;
+
+-- Repair rows the first version of the backfill above split with the honorific as the given
+-- name ('Dr. Ravi Kumar' -> given 'Dr.', middle 'Ravi'); untouched since, so full_name still leads with it
+UPDATE public.profiles SET
+  honorific = given_name,
+  given_name = coalesce(substring(middle_name from '^\S+'), family_name),
+  middle_name = nullif(trim(regexp_replace(coalesce(middle_name, ''), '^\S+\s*', '')), ''),
+  family_name = CASE WHEN middle_name IS NULL THEN null ELSE family_name END
+WHERE honorific IS NULL AND family_name IS NOT NULL
+  AND given_name = ANY (ARRAY['Mr.', 'Ms.', 'Mrs.', 'Dr.', 'Prof.', 'Adv.', 'CA', 'Er.'])
+  AND substring(trim(full_name) from '^\S+') = given_name;
+
+UPDATE public.profiles SET
+  address = jsonb_build_object('street', billing_address, 'city', '', 'state', '', 'postal_code', '', 'country', '')
+WHERE address IS NULL AND coalesce(trim(billing_address), '') <> '';
+
+-- Multiple typed phone numbers & emails (phone / email keep the preferred entry)
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS phones jsonb DEFAULT '[]'::jsonb;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS emails jsonb DEFAULT '[]'::jsonb;
+
+UPDATE public.profiles SET phones = jsonb_build_array(jsonb_build_object('id', 'legacy-phone', 'number', phone, 'type', 'cell', 'preferred', true))
+WHERE (phones IS NULL OR phones = '[]'::jsonb) AND coalesce(trim(phone), '') <> '';
+UPDATE public.profiles SET emails = jsonb_build_array(jsonb_build_object('id', 'legacy-email', 'address', email, 'type', 'work', 'preferred', true))
+WHERE (emails IS NULL OR emails = '[]'::jsonb) AND coalesce(trim(email), '') <> '';
+
+-- Exchange-contact lead capture (settings on the profile, submissions in their own table)
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS lead_capture jsonb DEFAULT null;
+
+CREATE TABLE IF NOT EXISTS public.leads (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  owner_id uuid NOT NULL,
+  name text NOT NULL,
+  phone text,
+  email text,
+  company text,
+  note text,
+  consent boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS leads_owner_created_idx ON public.leads (owner_id, created_at DESC);
+
+ALTER TABLE public.leads ENABLE ROW LEVEL SECURITY;
+
+-- Anyone may submit, but only to a profile that has the form switched on, with consent
+CREATE POLICY "Visitors can submit leads" ON public.leads FOR INSERT TO anon, authenticated
+WITH CHECK (
+  consent AND EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = profile_id AND p.user_id = owner_id
+      AND coalesce((p.lead_capture->>'enabled')::boolean, false)
+  )
+);
+CREATE POLICY "Owners can read their leads" ON public.leads FOR SELECT TO authenticated USING (owner_id = auth.uid());
+CREATE POLICY "Owners can delete their leads" ON public.leads FOR DELETE TO authenticated USING (owner_id = auth.uid());
+
+-- Leads inbox read/unread state
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS is_read boolean NOT NULL DEFAULT false;
+CREATE POLICY "Owners can update their leads" ON public.leads FOR UPDATE TO authenticated
+USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+-- Public profile analytics (views & clicks)
+CREATE TABLE IF NOT EXISTS public.profile_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  event_type text NOT NULL CHECK (event_type IN ('view', 'main_click', 'button_click', 'social_click')),
+  element_id text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS profile_events_profile_created_idx ON public.profile_events (profile_id, created_at);
+
+ALTER TABLE public.profile_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can record profile events" ON public.profile_events FOR INSERT TO anon, authenticated
+WITH CHECK (EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = profile_id));
+CREATE POLICY "Owners can read their profile events" ON public.profile_events FOR SELECT TO authenticated
+USING (EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = profile_id AND p.user_id = auth.uid()));
+
+-- Traffic source attribution (?src=nfc / ?src=qr on the profile URL; null = before tracking)
+ALTER TABLE public.profile_events ADD COLUMN IF NOT EXISTS source text CHECK (source IN ('nfc', 'qr', 'direct'));
+
+-- Looks saved from the APPEARANCE tab (built-in presets live in the app)
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS custom_themes jsonb DEFAULT '[]'::jsonb;
+
+-- Profile visibility: public / unlisted / pin / disabled
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS visibility text NOT NULL DEFAULT 'public'
+  CHECK (visibility IN ('public', 'unlisted', 'pin', 'disabled'));
+
+-- PIN hashes never sit on the profile row; RLS on with no policies = only the functions below can touch it
+CREATE TABLE IF NOT EXISTS public.profile_pins (
+  profile_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  pin_hash text NOT NULL,
+  failed_attempts int NOT NULL DEFAULT 0,
+  locked_until timestamptz
+);
+ALTER TABLE public.profile_pins ENABLE ROW LEVEL SECURITY;
+
+-- Replace the existing open SELECT policy on profiles (check its name under Authentication > Policies)
+DROP POLICY IF EXISTS "Public profiles are viewable by everyone." ON public.profiles;
+CREATE POLICY "Open profiles are readable" ON public.profiles FOR SELECT TO anon, authenticated
+USING (visibility IN ('public', 'unlisted') OR user_id = auth.uid());
+
+-- The public page: returns {status, profile?}; 5 wrong PINs lock the card for 15 minutes
+CREATE OR REPLACE FUNCTION public.get_public_profile(p_slug text, p_pin text DEFAULT null)
+RETURNS jsonb LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions AS $$
+DECLARE
+  p public.profiles;
+  pins public.profile_pins;
+BEGIN
+  SELECT * INTO p FROM public.profiles WHERE profile_slug = p_slug LIMIT 1;
+  IF NOT FOUND THEN RETURN jsonb_build_object('status', 'not_found'); END IF;
+  IF auth.uid() IS NOT NULL AND p.user_id = auth.uid() THEN RETURN jsonb_build_object('status', 'ok', 'profile', to_jsonb(p)); END IF;
+  IF p.visibility = 'disabled' THEN RETURN jsonb_build_object('status', 'disabled'); END IF;
+
+  IF p.visibility = 'pin' THEN
+    IF p_pin IS NULL THEN RETURN jsonb_build_object('status', 'pin_required'); END IF;
+    SELECT * INTO pins FROM public.profile_pins WHERE profile_id = p.id;
+    IF NOT FOUND THEN RETURN jsonb_build_object('status', 'pin_invalid'); END IF;
+    IF pins.locked_until > now() THEN RETURN jsonb_build_object('status', 'locked'); END IF;
+    IF pins.pin_hash <> crypt(p_pin, pins.pin_hash) THEN
+      UPDATE public.profile_pins SET
+        failed_attempts = CASE WHEN failed_attempts >= 4 THEN 0 ELSE failed_attempts + 1 END,
+        locked_until = CASE WHEN failed_attempts >= 4 THEN now() + interval '15 minutes' ELSE locked_until END
+      WHERE profile_id = p.id;
+      RETURN jsonb_build_object('status', 'pin_invalid');
+    END IF;
+    UPDATE public.profile_pins SET failed_attempts = 0, locked_until = null WHERE profile_id = p.id;
+  END IF;
+
+  RETURN jsonb_build_object('status', 'ok', 'profile', to_jsonb(p));
+END $$;
+
+CREATE OR REPLACE FUNCTION public.set_profile_pin(p_profile_id uuid, p_pin text)
+RETURNS void LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = p_profile_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'not the profile owner';
+  END IF;
+  IF p_pin IS NULL THEN
+    DELETE FROM public.profile_pins WHERE profile_id = p_profile_id;
+  ELSIF p_pin !~ '^[0-9]{4,8}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 8 digits';
+  ELSE
+    INSERT INTO public.profile_pins (profile_id, pin_hash) VALUES (p_profile_id, crypt(p_pin, gen_salt('bf')))
+    ON CONFLICT (profile_id) DO UPDATE SET pin_hash = excluded.pin_hash, failed_attempts = 0, locked_until = null;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION public.profile_has_pin(p_profile_id uuid)
+RETURNS boolean LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profile_pins pp JOIN public.profiles p ON p.id = pp.profile_id
+    WHERE pp.profile_id = p_profile_id AND p.user_id = auth.uid()
+  );
+$$;
+
+-- Unlocked PIN cards must still record views and accept leads, but the policies' lookups
+-- run under the profiles RLS above - check through SECURITY DEFINER helpers instead
+CREATE OR REPLACE FUNCTION public.profile_accepts_visitors(p_profile_id uuid)
+RETURNS boolean LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (SELECT 1 FROM public.profiles WHERE id = p_profile_id AND visibility <> 'disabled');
+$$;
+
+CREATE OR REPLACE FUNCTION public.profile_accepts_leads(p_profile_id uuid, p_owner_id uuid)
+RETURNS boolean LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = p_profile_id AND user_id = p_owner_id AND visibility <> 'disabled'
+      AND coalesce((lead_capture->>'enabled')::boolean, false)
+  );
+$$;
+
+DROP POLICY IF EXISTS "Anyone can record profile events" ON public.profile_events;
+CREATE POLICY "Anyone can record profile events" ON public.profile_events FOR INSERT TO anon, authenticated
+WITH CHECK (public.profile_accepts_visitors(profile_id));
+
+DROP POLICY IF EXISTS "Visitors can submit leads" ON public.leads;
+CREATE POLICY "Visitors can submit leads" ON public.leads FOR INSERT TO anon, authenticated
+WITH CHECK (consent AND public.profile_accepts_leads(profile_id, owner_id));
+
+GRANT EXECUTE ON FUNCTION public.get_public_profile(text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_profile_pin(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.profile_has_pin(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.profile_accepts_visitors(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.profile_accepts_leads(uuid, uuid) TO anon, authenticated;
+
+-- Multi-language profile text (default_locale = language of the main fields)
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS default_locale text DEFAULT 'en';
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS translations jsonb DEFAULT '{}'::jsonb;
+
+-- Slug history: printed QR codes / NFC tags keep working after a rename, and
+-- nobody else can claim a retired slug (its owner can take it back)
+CREATE UNIQUE INDEX IF NOT EXISTS profiles_profile_slug_key ON public.profiles (profile_slug);
+
+CREATE TABLE IF NOT EXISTS public.profile_slug_history (
+  slug text PRIMARY KEY,
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  retired_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS profile_slug_history_profile_idx ON public.profile_slug_history (profile_id);
+ALTER TABLE public.profile_slug_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners can read their slug history" ON public.profile_slug_history;
+CREATE POLICY "Owners can read their slug history" ON public.profile_slug_history FOR SELECT TO authenticated
+USING (EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = profile_id AND p.user_id = auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.track_profile_slug()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.profile_slug IS NOT DISTINCT FROM OLD.profile_slug THEN RETURN NEW; END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.profile_slug_history h JOIN public.profiles p ON p.id = h.profile_id
+    WHERE h.slug = NEW.profile_slug AND p.user_id IS DISTINCT FROM NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'profile link "%" is reserved by another card', NEW.profile_slug USING ERRCODE = 'unique_violation';
+  END IF;
+
+  -- Reusing one of the owner's old slugs ends its redirect
+  DELETE FROM public.profile_slug_history WHERE slug = NEW.profile_slug;
+  IF TG_OP = 'UPDATE' AND coalesce(OLD.profile_slug, '') <> '' THEN
+    INSERT INTO public.profile_slug_history (slug, profile_id) VALUES (OLD.profile_slug, OLD.id)
+    ON CONFLICT (slug) DO UPDATE SET profile_id = excluded.profile_id, retired_at = now();
+  END IF;
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS track_profile_slug ON public.profiles;
+CREATE TRIGGER track_profile_slug BEFORE INSERT OR UPDATE OF profile_slug ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.track_profile_slug();
+
+-- Live check for the slug input: 'available' | 'taken' | 'reserved'
+CREATE OR REPLACE FUNCTION public.check_profile_slug(p_slug text, p_profile_id uuid DEFAULT null)
+RETURNS text LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM public.profiles WHERE profile_slug = p_slug AND id IS DISTINCT FROM p_profile_id) THEN 'taken'
+    WHEN EXISTS (
+      SELECT 1 FROM public.profile_slug_history h JOIN public.profiles p ON p.id = h.profile_id
+      WHERE h.slug = p_slug AND p.user_id IS DISTINCT FROM auth.uid()
+    ) THEN 'reserved'
+    ELSE 'available'
+  END;
+$$;
+
+-- Current slug for a retired one (used by the /p/:slug edge redirect). PIN and disabled
+-- profiles resolve to null so an old link doesn't reveal where they moved.
+CREATE OR REPLACE FUNCTION public.resolve_profile_slug(p_slug text)
+RETURNS text LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT p.profile_slug FROM public.profile_slug_history h JOIN public.profiles p ON p.id = h.profile_id
+  WHERE h.slug = p_slug AND p.visibility IN ('public', 'unlisted');
+$$;
+
+-- get_public_profile again, now falling back to retired slugs
+CREATE OR REPLACE FUNCTION public.get_public_profile(p_slug text, p_pin text DEFAULT null)
+RETURNS jsonb LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions AS $$
+DECLARE
+  p public.profiles;
+  pins public.profile_pins;
+BEGIN
+  SELECT * INTO p FROM public.profiles WHERE profile_slug = p_slug LIMIT 1;
+  IF NOT FOUND THEN
+    SELECT pr.* INTO p FROM public.profile_slug_history h JOIN public.profiles pr ON pr.id = h.profile_id
+    WHERE h.slug = p_slug;
+  END IF;
+  IF NOT FOUND THEN RETURN jsonb_build_object('status', 'not_found'); END IF;
+  IF auth.uid() IS NOT NULL AND p.user_id = auth.uid() THEN RETURN jsonb_build_object('status', 'ok', 'profile', to_jsonb(p)); END IF;
+  IF p.visibility = 'disabled' THEN RETURN jsonb_build_object('status', 'disabled'); END IF;
+
+  IF p.visibility = 'pin' THEN
+    IF p_pin IS NULL THEN RETURN jsonb_build_object('status', 'pin_required'); END IF;
+    SELECT * INTO pins FROM public.profile_pins WHERE profile_id = p.id;
+    IF NOT FOUND THEN RETURN jsonb_build_object('status', 'pin_invalid'); END IF;
+    IF pins.locked_until > now() THEN RETURN jsonb_build_object('status', 'locked'); END IF;
+    IF pins.pin_hash <> crypt(p_pin, pins.pin_hash) THEN
+      UPDATE public.profile_pins SET
+        failed_attempts = CASE WHEN failed_attempts >= 4 THEN 0 ELSE failed_attempts + 1 END,
+        locked_until = CASE WHEN failed_attempts >= 4 THEN now() + interval '15 minutes' ELSE locked_until END
+      WHERE profile_id = p.id;
+      RETURN jsonb_build_object('status', 'pin_invalid');
+    END IF;
+    UPDATE public.profile_pins SET failed_attempts = 0, locked_until = null WHERE profile_id = p.id;
+  END IF;
+
+  RETURN jsonb_build_object('status', 'ok', 'profile', to_jsonb(p));
+END $$;
+
+GRANT EXECUTE ON FUNCTION public.check_profile_slug(text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_profile_slug(text) TO anon, authenticated;
+
+-- Profile version history (snapshots of the editor content; newest 50 kept per profile)
+CREATE TABLE IF NOT EXISTS public.profile_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  kind text NOT NULL DEFAULT 'manual' CHECK (kind IN ('manual', 'autosave', 'restore')),
+  data jsonb NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS profile_versions_profile_idx ON public.profile_versions (profile_id, created_at DESC);
+ALTER TABLE public.profile_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners manage their profile versions" ON public.profile_versions;
+CREATE POLICY "Owners manage their profile versions" ON public.profile_versions FOR ALL TO authenticated
+USING (EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = profile_id AND p.user_id = auth.uid()))
+WITH CHECK (EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = profile_id AND p.user_id = auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.prune_profile_versions()
+RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  DELETE FROM public.profile_versions WHERE id IN (
+    SELECT id FROM public.profile_versions WHERE profile_id = NEW.profile_id
+    ORDER BY created_at DESC OFFSET 50
+  );
+  RETURN NULL;
+END $$;
+
+DROP TRIGGER IF EXISTS prune_profile_versions ON public.profile_versions;
+CREATE TRIGGER prune_profile_versions AFTER INSERT ON public.profile_versions
+FOR EACH ROW EXECUTE FUNCTION public.prune_profile_versions();
+
+-- Draft vs published: the editor saves into draft_data, Publish copies it into the columns
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS draft_data jsonb DEFAULT null;
+
+ALTER TABLE public.profile_versions DROP CONSTRAINT IF EXISTS profile_versions_kind_check;
+ALTER TABLE public.profile_versions ADD CONSTRAINT profile_versions_kind_check
+  CHECK (kind IN ('manual', 'autosave', 'restore', 'publish'));
+
+-- get_public_profile again, never handing visitors the unpublished draft
+CREATE OR REPLACE FUNCTION public.get_public_profile(p_slug text, p_pin text DEFAULT null)
+RETURNS jsonb LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions AS $$
+DECLARE
+  p public.profiles;
+  pins public.profile_pins;
+BEGIN
+  SELECT * INTO p FROM public.profiles WHERE profile_slug = p_slug LIMIT 1;
+  IF NOT FOUND THEN
+    SELECT pr.* INTO p FROM public.profile_slug_history h JOIN public.profiles pr ON pr.id = h.profile_id
+    WHERE h.slug = p_slug;
+  END IF;
+  IF NOT FOUND THEN RETURN jsonb_build_object('status', 'not_found'); END IF;
+  IF auth.uid() IS NOT NULL AND p.user_id = auth.uid() THEN RETURN jsonb_build_object('status', 'ok', 'profile', to_jsonb(p)); END IF;
+  IF p.visibility = 'disabled' THEN RETURN jsonb_build_object('status', 'disabled'); END IF;
+
+  IF p.visibility = 'pin' THEN
+    IF p_pin IS NULL THEN RETURN jsonb_build_object('status', 'pin_required'); END IF;
+    SELECT * INTO pins FROM public.profile_pins WHERE profile_id = p.id;
+    IF NOT FOUND THEN RETURN jsonb_build_object('status', 'pin_invalid'); END IF;
+    IF pins.locked_until > now() THEN RETURN jsonb_build_object('status', 'locked'); END IF;
+    IF pins.pin_hash <> crypt(p_pin, pins.pin_hash) THEN
+      UPDATE public.profile_pins SET
+        failed_attempts = CASE WHEN failed_attempts >= 4 THEN 0 ELSE failed_attempts + 1 END,
+        locked_until = CASE WHEN failed_attempts >= 4 THEN now() + interval '15 minutes' ELSE locked_until END
+      WHERE profile_id = p.id;
+      RETURN jsonb_build_object('status', 'pin_invalid');
+    END IF;
+    UPDATE public.profile_pins SET failed_attempts = 0, locked_until = null WHERE profile_id = p.id;
+  END IF;
+
+  RETURN jsonb_build_object('status', 'ok', 'profile', to_jsonb(p) - 'draft_data');
+END $$;
+
+-- Optimistic concurrency: every update bumps revision, and the editor / card designer only
+-- write while the row is still at the revision they loaded (see utils/conflicts.ts)
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS revision integer NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.bump_profile_revision()
+RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  NEW.revision := OLD.revision + 1;
+  RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS bump_profile_revision ON public.profiles;
+CREATE TRIGGER bump_profile_revision BEFORE UPDATE ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.bump_profile_revision();
+
+-- Drafts move out of profiles: the open SELECT policy above lets anyone read every column of
+-- public / unlisted rows, draft_data included. profile_drafts is owner-only.
+CREATE TABLE IF NOT EXISTS public.profile_drafts (
+  profile_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  data jsonb NOT NULL,
+  revision integer NOT NULL DEFAULT 0, -- profiles.revision the draft was saved at
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+ALTER TABLE public.profile_drafts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners manage their drafts" ON public.profile_drafts;
+CREATE POLICY "Owners manage their drafts" ON public.profile_drafts FOR ALL TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid() AND EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = profile_id AND p.user_id = auth.uid()));
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.columns
+             WHERE table_schema = 'public' AND table_name = 'profiles' AND column_name = 'draft_data') THEN
+    INSERT INTO public.profile_drafts (profile_id, user_id, data, revision)
+    SELECT id, user_id, draft_data, revision FROM public.profiles WHERE draft_data IS NOT NULL
+    ON CONFLICT (profile_id) DO NOTHING;
+    ALTER TABLE public.profiles DROP COLUMN draft_data;
+  END IF;
+END $$;
+
+-- Draft save: the undrafted columns (slug / visibility / folder) and the draft in one transaction,
+-- at the revision the editor last saw. Returns the updated profile, or null if someone saved first.
+-- A null p_draft removes the draft (Discard). Runs as the caller, so RLS still applies.
+CREATE OR REPLACE FUNCTION public.save_profile_draft(
+  p_profile_id uuid, p_revision integer, p_draft jsonb, p_slug text, p_visibility text, p_folder text
+)
+RETURNS jsonb LANGUAGE plpgsql SET search_path = public AS $$
+DECLARE
+  p public.profiles;
+BEGIN
+  UPDATE public.profiles SET profile_slug = p_slug, visibility = p_visibility, storage_folder_path = p_folder
+  WHERE id = p_profile_id AND (p_revision IS NULL OR revision = p_revision)
+  RETURNING * INTO p;
+  IF NOT FOUND THEN RETURN null; END IF;
+
+  IF p_draft IS NULL THEN
+    DELETE FROM public.profile_drafts WHERE profile_id = p.id;
+  ELSE
+    INSERT INTO public.profile_drafts (profile_id, user_id, data, revision)
+    VALUES (p.id, p.user_id, p_draft, p.revision)
+    ON CONFLICT (profile_id) DO UPDATE SET data = EXCLUDED.data, revision = EXCLUDED.revision, updated_at = now();
+  END IF;
+  RETURN to_jsonb(p);
+END $$;
+
+GRANT EXECUTE ON FUNCTION public.save_profile_draft(uuid, integer, jsonb, text, text, text) TO authenticated;
+
+-- Analytics counts per local day / event / element / source, so the dashboard never pulls raw
+-- events (PostgREST caps responses at 1000 rows). Runs as the caller: owners only, via RLS.
+CREATE OR REPLACE FUNCTION public.profile_event_counts(p_profile_id uuid, p_since timestamptz, p_time_zone text DEFAULT 'UTC')
+RETURNS TABLE (day date, event_type text, element_id text, source text, count bigint)
+LANGUAGE sql STABLE SET search_path = public AS $$
+  SELECT (e.created_at AT TIME ZONE p_time_zone)::date, e.event_type, e.element_id, e.source, count(*)
+  FROM public.profile_events e
+  WHERE e.profile_id = p_profile_id AND e.created_at >= p_since
+  GROUP BY 1, 2, 3, 4
+  ORDER BY 1, 2, 3, 4;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.profile_event_counts(uuid, timestamptz, text) TO authenticated;
+
 -- ===============================================================================================
 */
@@ -0,0 +1,240 @@
+/**
+ * Service worker - keeps public profiles usable on flaky trade-fair Wi-Fi.
+ *
+ * - App shell (index.html) and CDN scripts/fonts: stale-while-revalidate
+ * - Hashed build assets (/assets/*): cache-first, they never change; the ones
+ *   the current index.html no longer reaches are dropped when it updates
+ * - get_public_profile RPC: stale-while-revalidate per slug, plus the photos,
+ *   icons and logo that profile uses, so the page and "Save Contact" (which
+ *   embeds those images in the vCard) work offline
+ *
+ * Only public/unlisted profiles are stored; PIN-protected cards always go to
+ * the network. Bump VERSION to drop the shell and asset caches.
+ */
+
+const VERSION = 'v1';
+const SHELL_CACHE = `canopy-shell-${VERSION}`;
+const ASSET_CACHE = `canopy-assets-${VERSION}`;
+const CDN_CACHE = `canopy-cdn-${VERSION}`;
+const PROFILE_CACHE_PREFIX = 'canopy-profile-v2-'; // v2: older copies may hold an owner's view, dropped on activate
+const MAX_PROFILES = 20;
+
+const SHELL_URL = '/index.html';
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'cdnjs.cloudflare.com', 'unpkg.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+const PROFILE_RPC_PATH = '/rest/v1/rpc/get_public_profile';
+
+// Hashed file names a page or chunk mentions - Vite's entry chunk names the lazy ones
+const ASSET_NAME_PATTERN = /[\w.-]+\.(?:js|css|woff2?|ttf|png|jpe?g|gif|svg|webp|avif)/g;
+
+const isShellPath = (pathname) => pathname === '/' || pathname === SHELL_URL || /^\/p\/[^/]+\/?$/.test(pathname);
+
+const profileKey = (slug) => `${self.location.origin}/__profile/${encodeURIComponent(slug)}`;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.add(SHELL_URL))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  const current = [SHELL_CACHE, ASSET_CACHE, CDN_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(
+        names
+          .filter((name) => !current.includes(name) && !name.startsWith(PROFILE_CACHE_PREFIX))
+          .map((name) => caches.delete(name))
+      ))
+      .then(() => caches.match(SHELL_URL))
+      .then((shell) => shell && shell.text().then(pruneAssets))
+      .catch(() => undefined)
+      .then(() => self.clients.claim())
+  );
+});
+
+/**
+ * Drops cached build assets the shell no longer reaches, following the
+ * cached JS/CSS it references for lazy chunks, fonts and images. Anything
+ * missed is just fetched again.
+ */
+const pruneAssets = async (html) => {
+  const cache = await caches.open(ASSET_CACHE);
+  const byName = new Map((await cache.keys()).map((req) => [new URL(req.url).pathname.split('/').pop(), req]));
+  const live = new Set();
+  const pending = [html];
+  while (pending.length) {
+    for (const name of pending.pop().match(ASSET_NAME_PATTERN) || []) {
+      if (live.has(name) || !byName.has(name)) continue;
+      live.add(name);
+      if (/\.(?:js|css)$/.test(name)) {
+        const res = await cache.match(byName.get(name));
+        if (res) pending.push(await res.text());
+      }
+    }
+  }
+  await Promise.all([...byName].filter(([name]) => !live.has(name)).map(([, req]) => cache.delete(req)));
+};
+
+// Serve the cached copy straight away and refresh it in the background
+const staleWhileRevalidate = async (event, cacheName, key, onStored) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(key);
+  const network = fetch(key)
+    .then((res) => {
+      if (!res.ok && res.type !== 'opaque') return res;
+      const copy = onStored ? res.clone() : null;
+      return cache.put(key, res.clone()).then(() => {
+        if (copy) event.waitUntil(onStored(copy).catch(() => undefined));
+        return res;
+      });
+    });
+
+  if (cached) {
+    event.waitUntil(network.catch(() => undefined));
+    return cached;
+  }
+  return network;
+};
+
+const cacheFirst = async (request, cacheName) => {
+  const cached = await caches.match(request, { ignoreVary: true });
+  if (cached) return cached;
+  const res = await fetch(request);
+  if (res.ok && cacheName) {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, res.clone());
+  }
+  return res;
+};
+
+// Images a profile page (and its vCard) loads - mirrors PublicProfile / getLogoUrl
+const collectImageUrls = (profile) => {
+  const urls = [profile.profile_photo_url, profile.background_photo_url];
+  if (!profile.profile_photo_url) {
+    urls.push(`https://ui-avatars.com/api/?name=${encodeURIComponent(profile.full_name || 'User')}&size=128`);
+  }
+  (profile.custom_elements || []).forEach((el) => {
+    urls.push(el.iconUrl);
+    ((el.data && el.data.images) || []).forEach((img) => urls.push(img.url));
+  });
+  const design = profile.design_data || {};
+  [design.front, design.back].forEach((side) => {
+    ((side && side.images) || []).forEach((img) => { if (img.id === 'logo') urls.push(img.url); });
+  });
+  return [...new Set(urls.filter((url) => typeof url === 'string' && /^https?:\/\//.test(url)))];
+};
+
+// Keep the most recently seen profiles only
+const pruneProfiles = async () => {
+  const names = (await caches.keys()).filter((name) => name.startsWith(PROFILE_CACHE_PREFIX));
+  if (names.length <= MAX_PROFILES) return;
+
+  const stamped = await Promise.all(names.map(async (name) => {
+    const keys = await (await caches.open(name)).keys();
+    const entry = keys.find((req) => req.url.includes('/__profile/'));
+    const res = entry && await caches.match(entry);
+    return { name, at: Number((res && res.headers.get('sw-cached-at')) || 0) };
+  }));
+  stamped.sort((a, b) => b.at - a.at).slice(MAX_PROFILES).forEach(({ name }) => caches.delete(name));
+};
+
+const notifyClients = async (message) => {
+  const clients = await self.clients.matchAll({ type: 'window' });
+  clients.forEach((client) => client.postMessage(message));
+};
+
+const storeProfile = async (slug, res, previous) => {
+  const cacheName = PROFILE_CACHE_PREFIX + slug;
+  const result = await res.json().catch(() => null);
+  const profile = result && result.status === 'ok' ? result.profile : null;
+
+  if (!profile || !['public', 'unlisted', undefined, null].includes(profile.visibility)) {
+    // Gone, disabled or now private - stop serving the old copy
+    if (result && result.status !== 'ok') await caches.delete(cacheName);
+    return;
+  }
+
+  const cache = await caches.open(cacheName);
+  await cache.put(profileKey(slug), new Response(JSON.stringify(result), {
+    headers: { 'Content-Type': 'application/json', 'sw-cached-at': String(Date.now()) },
+  }));
+
+  // CORS mode so the vCard builder can read the pixels back out of the cache
+  await Promise.all(collectImageUrls(profile).map(async (url) => {
+    if (await cache.match(url, { ignoreVary: true })) return;
+    try {
+      const img = await fetch(url, { mode: 'cors', credentials: 'omit' });
+      if (img.ok) await cache.put(url, img);
+    } catch (err) {
+      // Best effort - the page still works without the image
+    }
+  }));
+
+  if (previous) {
+    const before = await previous.json().catch(() => null);
+    const changed = !before || !before.profile || before.profile.updated_at !== profile.updated_at;
+    if (changed) notifyClients({ type: 'profile-updated', slug });
+  }
+  await pruneProfiles();
+};
+
+// supabase-js sends the anon key as the bearer token until someone signs in
+const isSignedIn = (request) => {
+  const auth = request.headers.get('Authorization');
+  const apiKey = request.headers.get('apikey');
+  return Boolean(auth) && auth !== `Bearer ${apiKey}`;
+};
+
+const handleProfileRpc = async (event) => {
+  // Signed-in requests can get the owner's view of a card - never cache or serve that to others
+  if (isSignedIn(event.request)) return fetch(event.request);
+
+  const body = await event.request.clone().json().catch(() => null);
+  // Unlock attempts and anything unexpected go straight to the network
+  if (!body || typeof body.p_slug !== 'string' || body.p_pin) return fetch(event.request);
+
+  const slug = body.p_slug;
+  const cached = await caches.match(profileKey(slug));
+  const previous = cached ? cached.clone() : undefined; // The page consumes `cached`
+  const network = fetch(event.request).then((res) => {
+    if (res.ok) event.waitUntil(storeProfile(slug, res.clone(), previous));
+    return res;
+  });
+
+  if (cached) {
+    event.waitUntil(network.catch(() => undefined));
+    return cached;
+  }
+  return network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method === 'POST' && url.pathname === PROFILE_RPC_PATH) {
+    event.respondWith(handleProfileRpc(event));
+    return;
+  }
+  if (request.method !== 'GET') return;
+
+  if (request.mode === 'navigate' && url.origin === self.location.origin && isShellPath(url.pathname)) {
+    // HashRouter app: the home page and /p/:slug (see index.tsx) both boot from index.html
+    event.respondWith(staleWhileRevalidate(event, SHELL_CACHE, SHELL_URL, (res) => res.text().then(pruneAssets)));
+    return;
+  }
+  if (url.origin === self.location.origin && url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request, ASSET_CACHE));
+    return;
+  }
+  if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(event, CDN_CACHE, request));
+    return;
+  }
+  if (request.destination === 'image' || url.pathname.includes('/storage/v1/object/public/')) {
+    // Profile images are precached with their profile; everything else just passes through
+    event.respondWith(cacheFirst(request, null));
+  }
+});
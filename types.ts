@@ -28,26 +28,114 @@ export interface ButtonStyle {
   border: boolean;
 }
 
+// Non-button content that can sit between the action buttons
+export type ContentBlockType = 'heading' | 'text' | 'image' | 'gallery' | 'embed' | 'divider' | 'map';
+
+export interface BlockImage {
+  url: string;
+  caption?: string;
+}
+
+// Per-type settings for content blocks (unused by link/social elements)
+export interface BlockData {
+  text?: string; // heading: plain text; text: light markdown (**bold**, *italic*, [link](url), - lists)
+  size?: 'sm' | 'md' | 'lg'; // heading
+  align?: 'left' | 'center' | 'right'; // heading, text
+  images?: BlockImage[]; // image: first entry only; gallery: all
+  linkUrl?: string; // image: optional click-through
+  embedUrl?: string; // embed: YouTube or Vimeo page URL
+  query?: string; // map: address or place name
+  variant?: 'line' | 'dots' | 'space'; // divider
+}
+
 export interface CustomButtonElement {
   id: string;
-  type: 'link' | 'social';
+  type: 'link' | 'social' | ContentBlockType;
   subtype?: string; // e.g. 'instagram', 'whatsapp', 'custom'
-  label: string;
-  url: string;
+  label: string; // Button text, or the block's name in the editor
+  url: string; // Empty for content blocks
   iconUrl?: string; // For custom icons
   style: ButtonStyle;
   isActive: boolean;
+  data?: BlockData; // Content blocks only
+  // Optional schedule, evaluated on the visitor's clock (see utils/schedule.ts)
+  activeFrom?: string | null; // Local date-time, YYYY-MM-DDTHH:mm
+  activeUntil?: string | null;
+  activeDays?: number[] | null; // 0 = Sunday ... 6 = Saturday; empty = every day
+  activeHours?: ActiveHours | null;
+}
+
+// Daily window in HH:mm; an end before the start runs past midnight
+export interface ActiveHours {
+  start: string;
+  end: string;
+}
+
+// A named look: page colours, font, photo shape and default button styles
+export interface ProfileTheme {
+  id: string;
+  name: string;
+  theme_color: string;
+  background_color: string;
+  card_color: string;
+  card_text_color: string;
+  font_family: string;
+  card_shape: string;
+  main_button: ButtonStyle;
+  link_button: ButtonStyle;
+  social_button: Pick<ButtonStyle, 'backgroundColor' | 'textColor'> | null; // null keeps each network's brand colour
+}
+
+export interface PostalAddress {
+  street: string;
+  city: string;
+  state: string;
+  postal_code: string; // PIN code
+  country: string;
+}
+
+export type PhoneType = 'cell' | 'work' | 'home' | 'fax' | 'whatsapp';
+export type EmailType = 'work' | 'home' | 'other';
+
+export interface PhoneEntry {
+  id: string;
+  number: string;
+  type: PhoneType;
+  preferred: boolean;
+}
+
+export interface EmailEntry {
+  id: string;
+  address: string;
+  type: EmailType;
+  preferred: boolean;
+}
+
+export interface LeadCaptureSettings {
+  enabled: boolean;
+  title: string; // Heading shown above the form
+  buttonText: string; // Collapsed call-to-action
+  consentText: string;
+  askCompany: boolean;
+  askNote: boolean;
 }
 
 export interface Profile {
   id: string;
   user_id: string;
   profile_slug: string;
-  full_name: string;
+  full_name: string; // Display name, composed from the structured parts below when present
+  honorific?: string | null; // e.g. 'Dr.', 'Adv.'
+  given_name?: string | null;
+  middle_name?: string | null;
+  family_name?: string | null;
+  job_title?: string | null;
   company: string | null;
   bio: string | null;
-  phone: string | null;
-  email: string | null;
+  phone: string | null; // Preferred entry of `phones`, kept for legacy readers
+  email: string | null; // Preferred entry of `emails`, kept for legacy readers
+  phones?: PhoneEntry[]; // stored as jsonb
+  emails?: EmailEntry[]; // stored as jsonb
   website: string | null;
   social_links: SocialLinks; // stored as jsonb (Legacy, keeping for backward compat)
   custom_elements: CustomButtonElement[]; // New: For custom buttons and unified links
@@ -77,7 +165,59 @@ export interface Profile {
   updated_at: string;
   subscription_end_date?: string | null; // New: Track subscription expiry (timestamptz)
   gst_number?: string | null;
-  billing_address?: string | null;
+  billing_address?: string | null; // Formatted copy of `address`, kept for legacy readers
+  address?: PostalAddress | null; // stored as jsonb
+  lead_capture?: LeadCaptureSettings | null; // stored as jsonb
+  custom_themes?: ProfileTheme[] | null; // Looks saved by the user, stored as jsonb
+  visibility?: ProfileVisibility; // PIN itself lives server-side in profile_pins
+  default_locale?: string | null; // Language the fields above are written in
+  translations?: Record<string, ProfileTranslation> | null; // Keyed by locale code, stored as jsonb
+  revision?: number; // Bumped by the database on every update - saves send the one they started from
+}
+
+// Other-language versions of a profile's text; blank entries fall back to the original
+export interface ProfileTranslation {
+  bio?: string;
+  company?: string;
+  job_title?: string;
+  custom_button_text?: string;
+  elements?: Record<string, string>; // CustomButtonElement.id -> button label, or heading/text block text
+}
+
+// public: anyone with the link, indexed | unlisted: anyone with the link, never indexed
+// pin: visitors must enter the owner's PIN | disabled: the card shows as unavailable
+export type ProfileVisibility = 'public' | 'unlisted' | 'pin' | 'disabled';
+
+// Visitor details left on a public profile via the exchange-contact form
+export interface Lead {
+  id: string;
+  profile_id: string;
+  owner_id: string; // profiles.user_id of the card owner
+  name: string;
+  phone: string | null;
+  email: string | null;
+  company: string | null;
+  note: string | null;
+  consent: boolean;
+  is_read: boolean;
+  created_at: string;
+}
+
+export type LeadInsert = Omit<Lead, 'id' | 'created_at' | 'is_read'>;
+
+export type ProfileEventType = 'view' | 'main_click' | 'button_click' | 'social_click';
+
+// How the visitor reached the profile: NFC tap, QR scan, or a plain shared link
+export type ProfileSource = 'nfc' | 'qr' | 'direct';
+
+// One row per public-profile view or click (written anonymously, read by the owner)
+export interface ProfileEvent {
+  id: string;
+  profile_id: string;
+  event_type: ProfileEventType;
+  element_id: string | null; // CustomButtonElement.id for button/social clicks
+  source: ProfileSource | null;
+  created_at: string;
 }
 
 export type ProfileInsert = Omit<Profile, 'id' | 'created_at' | 'updated_at'>;
@@ -0,0 +1,155 @@
+import { getSupabase } from '../lib/supabase';
+import { CustomButtonElement, ProfileEventType, ProfileSource } from '../types';
+import { isButtonElement } from './blocks';
+
+/**
+ * Public profile analytics
+ *
+ * Events are fire-and-forget inserts into `profile_events`; the Dashboard gets
+ * them back already counted per day / event / element / source from the
+ * `profile_event_counts` RPC and builds the totals client-side.
+ */
+
+const VIEW_KEY_PREFIX = 'pv_';
+
+/**
+ * Records an event. Never throws - analytics must not break the profile page.
+ */
+export const trackEvent = (
+    profileId: string | undefined,
+    eventType: ProfileEventType,
+    elementId: string | null = null,
+    source: ProfileSource = 'direct',
+): void => {
+    if (!profileId) return;
+
+    // Count a view once per browser session, so refreshes don't inflate numbers
+    if (eventType === 'view') {
+        try {
+            const key = VIEW_KEY_PREFIX + profileId;
+            if (sessionStorage.getItem(key)) return;
+            sessionStorage.setItem(key, '1');
+        } catch (e) { /* storage disabled - count it anyway */ }
+    }
+
+    getSupabase()
+        .from('profile_events')
+        .insert({ profile_id: profileId, event_type: eventType, element_id: elementId, source })
+        .then(({ error }) => {
+            if (error) console.warn('Analytics event not recorded:', error.message);
+        });
+};
+
+export interface EventCount {
+    day: string; // YYYY-MM-DD, in the viewer's time zone
+    event_type: ProfileEventType;
+    element_id: string | null;
+    source: ProfileSource | null; // null = recorded before attribution
+    count: number;
+}
+
+const PAGE_SIZE = 1000; // PostgREST's default row cap
+
+export const fetchEventCounts = async (profileId: string, days: number): Promise<EventCount[]> => {
+    const since = new Date();
+    since.setHours(0, 0, 0, 0);
+    since.setDate(since.getDate() - (days - 1));
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+    // Counted rows stay small, but many buttons x sources x 90 days can still pass the cap
+    const counts: EventCount[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await getSupabase()
+            .rpc('profile_event_counts', { p_profile_id: profileId, p_since: since.toISOString(), p_time_zone: timeZone })
+            .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        const page = (data || []) as EventCount[];
+        counts.push(...page.map(row => ({ ...row, count: Number(row.count) }))); // bigint arrives as string or number
+        if (page.length < PAGE_SIZE) return counts;
+    }
+};
+
+export interface DailyCount {
+    date: string; // YYYY-MM-DD, local time
+    views: number;
+    clicks: number;
+}
+
+export interface ButtonStats {
+    id: string;
+    label: string;
+    type: 'main' | 'link' | 'social';
+    clicks: number;
+    ctr: number; // clicks / views, 0..1
+}
+
+export interface AnalyticsSummary {
+    views: number;
+    viewsBySource: Record<ProfileSource, number>;
+    clicks: number;
+    mainClicks: number;
+    daily: DailyCount[];
+    buttons: ButtonStats[];
+}
+
+const localDateKey = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const MAIN_BUTTON_ID = 'main';
+
+/**
+ * Aggregates event counts into totals, a zero-filled daily series and per-button CTR.
+ * Buttons that were deleted from the profile are still listed if they have clicks.
+ */
+export const summarizeEvents = (
+    events: EventCount[],
+    days: number,
+    elements: CustomButtonElement[],
+    mainButtonLabel: string,
+): AnalyticsSummary => {
+    const daily = new Map<string, DailyCount>();
+    const start = new Date();
+    start.setHours(0, 0, 0, 0);
+    start.setDate(start.getDate() - (days - 1));
+    for (let i = 0; i < days; i++) {
+        const d = new Date(start);
+        d.setDate(start.getDate() + i);
+        const key = localDateKey(d);
+        daily.set(key, { date: key, views: 0, clicks: 0 });
+    }
+
+    const clicksById = new Map<string, number>();
+    let views = 0;
+    const viewsBySource: Record<ProfileSource, number> = { nfc: 0, qr: 0, direct: 0 };
+    let clicks = 0;
+    let mainClicks = 0;
+
+    events.forEach(({ day, event_type, element_id, source, count }) => {
+        const bucket = daily.get(day);
+        if (event_type === 'view') {
+            views += count;
+            viewsBySource[source || 'direct'] += count; // Rows from before attribution count as direct
+            if (bucket) bucket.views += count;
+            return;
+        }
+        clicks += count;
+        if (bucket) bucket.clicks += count;
+        const id = event_type === 'main_click' ? MAIN_BUTTON_ID : element_id;
+        if (event_type === 'main_click') mainClicks += count;
+        if (id) clicksById.set(id, (clicksById.get(id) || 0) + count);
+    });
+
+    const ctr = (count: number) => (views > 0 ? count / views : 0);
+
+    const buttons: ButtonStats[] = [
+        { id: MAIN_BUTTON_ID, label: mainButtonLabel, type: 'main', clicks: mainClicks, ctr: ctr(mainClicks) },
+        ...elements.filter(isButtonElement).map(el => ({ id: el.id, label: el.label, type: el.type, clicks: clicksById.get(el.id) || 0, ctr: ctr(clicksById.get(el.id) || 0) })),
+    ];
+
+    const knownIds = new Set(buttons.map(b => b.id));
+    clicksById.forEach((count, id) => {
+        if (!knownIds.has(id)) buttons.push({ id, label: 'Removed button', type: 'link', clicks: count, ctr: ctr(count) });
+    });
+
+    return { views, viewsBySource, clicks, mainClicks, daily: Array.from(daily.values()), buttons };
+};
@@ -0,0 +1,72 @@
+import { CustomButtonElement, ContentBlockType, BlockData } from '../types';
+
+/**
+ * Content blocks share `custom_elements` with link buttons and social icons so
+ * they can be ordered freely between buttons. Older rows only contain
+ * 'link' / 'social' entries and need no migration.
+ */
+
+export const BLOCK_TYPES: { type: ContentBlockType; label: string; description: string }[] = [
+  { type: 'heading', label: 'Heading', description: 'Section title' },
+  { type: 'text', label: 'Text', description: 'Paragraph with bold, italic, links & lists' },
+  { type: 'image', label: 'Image', description: 'Single picture, optionally linked' },
+  { type: 'gallery', label: 'Gallery', description: 'Swipeable set of pictures' },
+  { type: 'embed', label: 'Video', description: 'YouTube or Vimeo' },
+  { type: 'divider', label: 'Divider', description: 'Line, dots or spacing' },
+  { type: 'map', label: 'Map', description: 'Google Map of an address' },
+];
+
+const DEFAULT_DATA: Record<ContentBlockType, BlockData> = {
+  heading: { text: 'New Section', size: 'md', align: 'center' },
+  text: { text: '', align: 'center' },
+  image: { images: [] },
+  gallery: { images: [] },
+  embed: { embedUrl: '' },
+  divider: { variant: 'line' },
+  map: { query: '' },
+};
+
+export const isContentBlock = (el: CustomButtonElement): boolean => el.type !== 'link' && el.type !== 'social';
+
+export const isButtonElement = (el: CustomButtonElement): el is CustomButtonElement & { type: 'link' | 'social' } =>
+  el.type === 'link' || el.type === 'social';
+
+export const getBlockLabel = (type: CustomButtonElement['type']): string =>
+  BLOCK_TYPES.find(b => b.type === type)?.label || 'Button';
+
+export const createBlock = (type: ContentBlockType, id: string): CustomButtonElement => ({
+  id,
+  type,
+  label: getBlockLabel(type),
+  url: '',
+  // Blocks don't use button styling, but the field is required for older readers
+  style: { backgroundColor: 'transparent', textColor: '#ffffff', shape: 'rounded-lg', shadow: false, border: false },
+  isActive: true,
+  data: { ...DEFAULT_DATA[type] },
+});
+
+export interface EmbedInfo {
+  provider: 'youtube' | 'vimeo';
+  embedUrl: string;
+}
+
+/**
+ * Turns a YouTube (watch, youtu.be, shorts, embed) or Vimeo page URL into a
+ * privacy-friendly player URL. Returns null for anything else.
+ */
+export const getEmbedInfo = (url: string): EmbedInfo | null => {
+  const trimmed = (url || '').trim();
+  const yt = trimmed.match(/(?:youtube\.com\/(?:watch\?(?:.*&)?v=|shorts\/|embed\/|live\/)|youtu\.be\/)([A-Za-z0-9_-]{11})/);
+  if (yt) return { provider: 'youtube', embedUrl: `https://www.youtube-nocookie.com/embed/${yt[1]}` };
+
+  const vimeo = trimmed.match(/vimeo\.com\/(?:video\/|channels\/[^/]+\/)?(\d+)/);
+  if (vimeo) return { provider: 'vimeo', embedUrl: `https://player.vimeo.com/video/${vimeo[1]}` };
+
+  return null;
+};
+
+export const getMapEmbedUrl = (query: string) =>
+  `https://maps.google.com/maps?q=${encodeURIComponent(query)}&output=embed`;
+
+export const getMapLinkUrl = (query: string) =>
+  `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(query)}`;
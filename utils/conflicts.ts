@@ -0,0 +1,80 @@
+import { getSupabase } from '../lib/supabase';
+import { Profile } from '../types';
+
+/**
+ * Optimistic concurrency for profile saves, so two open tabs or devices can't
+ * silently overwrite each other. The database bumps profiles.revision on every
+ * update (see the SQL notes in lib/supabase.ts); a save only goes through
+ * while the row is still at the revision the writer last saw.
+ *
+ * When it isn't, the writer three-way merges: fields only the other side
+ * changed are taken over, fields only this side changed are kept, and fields
+ * both sides changed differently are conflicts for the user to pick from.
+ */
+
+export type ConflictChoice = 'mine' | 'theirs';
+
+export interface FieldConflict {
+  field: string;
+  label: string;
+  mine: string; // Human readable, '' = not set
+  theirs: string;
+}
+
+export interface MergeResult<T> {
+  merged: T; // Mine plus their non-conflicting changes
+  conflicts: string[];
+}
+
+// jsonb hands objects back with its own key order, so compare with keys sorted
+const canonical = (value: any): any => {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value && typeof value === 'object') return Object.fromEntries(Object.keys(value).sort().map(key => [key, canonical(value[key])]));
+  return value;
+};
+const same = (a: any, b: any) => JSON.stringify(canonical(a ?? null)) === JSON.stringify(canonical(b ?? null));
+
+export const threeWayMerge = <T extends Record<string, any>>(base: T, mine: T, theirs: T, fields: string[]): MergeResult<T> => {
+  const merged: Record<string, any> = { ...mine };
+  const conflicts: string[] = [];
+
+  fields.forEach(field => {
+    if (same(base[field], theirs[field])) return; // They didn't touch it
+    if (same(base[field], mine[field])) merged[field] = theirs[field]; // Only they did
+    else if (!same(mine[field], theirs[field])) conflicts.push(field); // Both did, differently
+  });
+  return { merged: merged as T, conflicts };
+};
+
+// Applies the user's picks from the merge dialog; unanswered fields keep mine
+export const resolveConflicts = <T extends Record<string, any>>(merged: T, theirs: T, choices: Record<string, ConflictChoice>): T => {
+  const resolved: Record<string, any> = { ...merged };
+  Object.entries(choices).forEach(([field, choice]) => {
+    if (choice === 'theirs') resolved[field] = theirs[field];
+  });
+  return resolved as T;
+};
+
+/**
+ * Updates the profile only if it is still at `revision`. Returns the updated
+ * row, or null when someone else saved first. A null revision (column not
+ * migrated yet) falls back to a plain update.
+ */
+export const updateProfileAtRevision = async (
+  profileId: string,
+  revision: number | null,
+  update: Partial<Profile>,
+  columns = '*'
+): Promise<Partial<Profile> | null> => {
+  let query = getSupabase().from('profiles').update(update).eq('id', profileId);
+  if (revision !== null) query = query.eq('revision', revision);
+  const { data, error } = await query.select(columns).maybeSingle();
+  if (error) throw error;
+  return data as Partial<Profile> | null;
+};
+
+export const fetchLatestProfile = async (profileId: string, columns = '*'): Promise<Partial<Profile>> => {
+  const { data, error } = await getSupabase().from('profiles').select(columns).eq('id', profileId).single();
+  if (error) throw error;
+  return data as Partial<Profile>;
+};
@@ -0,0 +1,392 @@
+/**
+ * Contact file import (.vcf / .csv)
+ *
+ * Parses a contact exported from a phone, Google Contacts or Outlook into the
+ * flat set of fields the profile editor understands.
+ */
+
+import { PostalAddress, PhoneEntry, EmailEntry, PhoneType, EmailType } from '../types';
+import { formatAddress, isAddressEmpty } from './profileFormat';
+
+export interface ImportedUrl {
+  url: string;
+  label?: string; // TYPE / column label as found in the file
+}
+
+export interface ImportedContact {
+  full_name?: string;
+  honorific?: string;
+  given_name?: string;
+  middle_name?: string;
+  family_name?: string;
+  job_title?: string;
+  company?: string;
+  phone?: string; // Preferred number
+  email?: string; // Preferred address
+  phones: Omit<PhoneEntry, 'id'>[];
+  emails: Omit<EmailEntry, 'id'>[];
+  website?: string;
+  billing_address?: string;
+  address?: PostalAddress;
+  bio?: string;
+  urls: ImportedUrl[];
+}
+
+interface ParsedLine {
+  name: string;
+  params: Record<string, string[]>;
+  value: string;
+}
+
+// --- vCard ---
+
+/**
+ * Reverses RFC 6350 text escaping.
+ */
+export const unescapeText = (value: string): string =>
+  value.replace(/\\([\\,;nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+
+// Splits on unescaped separators (';' for structured values, ',' for lists)
+const splitUnescaped = (value: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (ch === '\\' && i + 1 < value.length) {
+      current += ch + value[i + 1];
+      i++;
+    } else if (ch === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts;
+};
+
+const decodeQuotedPrintable = (value: string): string => {
+  const joined = value.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < joined.length; i++) {
+    if (joined[i] === '=' && /^[0-9A-F]{2}$/i.test(joined.substring(i + 1, i + 3))) {
+      bytes.push(parseInt(joined.substring(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(joined.charCodeAt(i));
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+};
+
+const parseContentLine = (line: string): ParsedLine | null => {
+  // Find the first ':' that is not inside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) { colon = i; break; }
+  }
+  if (colon === -1) return null;
+
+  const [rawName, ...rawParams] = line.substring(0, colon).split(';');
+  // Strip group prefixes such as "item1.URL"
+  const name = rawName.split('.').pop()!.toUpperCase();
+  const params: Record<string, string[]> = {};
+
+  rawParams.forEach(p => {
+    const eq = p.indexOf('=');
+    // vCard 2.1 allows bare types: TEL;CELL:...
+    const key = eq === -1 ? 'TYPE' : p.substring(0, eq).toUpperCase();
+    const val = eq === -1 ? p : p.substring(eq + 1);
+    const values = val.split(',').map(v => v.replace(/^"|"$/g, '').toLowerCase());
+    params[key] = [...(params[key] || []), ...values];
+  });
+
+  let value = line.substring(colon + 1);
+  if (params.ENCODING?.includes('quoted-printable')) value = decodeQuotedPrintable(value);
+
+  return { name, params, value };
+};
+
+// Unfolds continuation lines (and vCard 2.1 quoted-printable soft breaks)
+const unfoldLines = (text: string): string[] => {
+  const raw = text.replace(/\r\n|\r/g, '\n').split('\n');
+  const lines: string[] = [];
+  raw.forEach(line => {
+    if ((line.startsWith(' ') || line.startsWith('\t')) && lines.length > 0) {
+      lines[lines.length - 1] += line.substring(1);
+    } else if (lines.length > 0 && /=$/.test(lines[lines.length - 1]) && /quoted-printable/i.test(lines[lines.length - 1])) {
+      lines[lines.length - 1] = lines[lines.length - 1].slice(0, -1) + line;
+    } else if (line.trim() !== '') {
+      lines.push(line);
+    }
+  });
+  return lines;
+};
+
+const isPreferred = (line: ParsedLine) => line.params.TYPE?.includes('pref') || line.params.PREF !== undefined;
+
+// Picks the preferred instance of a repeated property, falling back to the first
+const pickPreferred = (lines: ParsedLine[]): ParsedLine | undefined => lines.find(isPreferred) || lines[0];
+
+const phoneTypeFromParams = (types: string[] = []): PhoneType => {
+  if (types.some(t => t.includes('whatsapp'))) return 'whatsapp';
+  if (types.includes('fax')) return 'fax';
+  if (types.includes('cell') || types.includes('mobile') || types.includes('iphone')) return 'cell';
+  if (types.includes('work')) return 'work';
+  if (types.includes('home')) return 'home';
+  return 'cell';
+};
+
+const emailTypeFromParams = (types: string[] = []): EmailType => {
+  if (types.includes('work')) return 'work';
+  if (types.includes('home')) return 'home';
+  return 'other';
+};
+
+/**
+ * Parses the first contact in a vCard (2.1, 3.0 or 4.0) file.
+ */
+export const parseVCard = (text: string): ImportedContact => {
+  const lines = unfoldLines(text).map(parseContentLine).filter(Boolean) as ParsedLine[];
+  const endIndex = lines.findIndex(l => l.name === 'END');
+  const card = endIndex === -1 ? lines : lines.slice(0, endIndex);
+  const byName = (name: string) => card.filter(l => l.name === name);
+
+  const contact: ImportedContact = { urls: [], phones: [], emails: [] };
+
+  const n = byName('N')[0];
+  if (n) {
+    const [family, given, additional, prefix, suffix] = splitUnescaped(n.value, ';').map(c => unescapeText(c || '').trim());
+    contact.family_name = family || undefined;
+    contact.given_name = given || undefined;
+    contact.middle_name = additional || undefined;
+    contact.honorific = prefix || undefined;
+    contact.full_name = [prefix, given, additional, family, suffix].filter(Boolean).join(' ').trim() || undefined;
+  }
+
+  const fn = byName('FN')[0];
+  if (fn && unescapeText(fn.value).trim()) contact.full_name = unescapeText(fn.value).trim();
+
+  const title = byName('TITLE')[0];
+  if (title) contact.job_title = unescapeText(title.value).trim() || undefined;
+
+  const org = byName('ORG')[0];
+  if (org) contact.company = splitUnescaped(org.value, ';').map(unescapeText).filter(Boolean).join(', ');
+
+  const tels = byName('TEL').filter(l => l.value.trim());
+  const preferredTel = pickPreferred(tels);
+  contact.phones = tels.map(line => ({
+    number: line.value.replace(/^tel:/i, '').trim(),
+    type: phoneTypeFromParams(line.params.TYPE),
+    preferred: line === preferredTel,
+  }));
+  contact.phone = contact.phones.find(p => p.preferred)?.number;
+
+  const emails = byName('EMAIL').filter(l => l.value.trim());
+  const preferredEmail = pickPreferred(emails);
+  contact.emails = emails.map(line => ({
+    address: line.value.replace(/^mailto:/i, '').trim(),
+    type: emailTypeFromParams(line.params.TYPE),
+    preferred: line === preferredEmail,
+  }));
+  contact.email = contact.emails.find(e => e.preferred)?.address;
+
+  const note = byName('NOTE')[0];
+  if (note) contact.bio = unescapeText(note.value).trim();
+
+  const adr = pickPreferred(byName('ADR'));
+  if (adr) {
+    // post-office box;extended;street;locality;region;postal code;country
+    const [pobox, extended, street, city, region, postal, country] = splitUnescaped(adr.value, ';').map(c => unescapeText(c || '').trim());
+    const address: PostalAddress = {
+      street: [pobox, extended, street].filter(Boolean).join('\n'),
+      city: city || '',
+      state: region || '',
+      postal_code: postal || '',
+      country: country || '',
+    };
+    if (!isAddressEmpty(address)) {
+      contact.address = address;
+      contact.billing_address = formatAddress(address);
+    }
+  }
+
+  byName('URL').forEach(line => {
+    const url = line.value.trim();
+    if (!url) return;
+    const label = line.params.TYPE?.find(t => t !== 'pref');
+    // First untyped (or "work"/"home") URL is treated as the website
+    if (!contact.website && (!label || label === 'work' || label === 'home')) {
+      contact.website = url;
+    } else {
+      contact.urls.push({ url, label });
+    }
+  });
+
+  // Social profiles exported by iOS / Android
+  byName('X-SOCIALPROFILE').forEach(line => {
+    const url = line.value.replace(/^x-apple:/i, '').trim();
+    if (/^https?:\/\//i.test(url)) contact.urls.push({ url, label: line.params.TYPE?.[0] });
+  });
+
+  return contact;
+};
+
+// --- CSV ---
+
+/**
+ * Minimal RFC 4180 CSV parser (quoted fields, escaped quotes, embedded newlines).
+ */
+export const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field); field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(f => f !== '')) rows.push(row);
+      row = [];
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some(f => f !== '')) rows.push(row);
+  return rows;
+};
+
+// Header aliases from Google Contacts, Outlook and hand-made sheets (lowercased, non-alphanumerics stripped)
+const CSV_COLUMNS: Record<string, string[]> = {
+  full_name: ['name', 'fullname', 'displayname'],
+  honorific: ['title', 'nameprefix', 'prefix', 'honorific', 'salutation'],
+  given_name: ['firstname', 'givenname'],
+  middle_name: ['middlename', 'additionalname'],
+  family_name: ['lastname', 'familyname', 'surname'],
+  job_title: ['jobtitle', 'organization1title', 'designation', 'position'],
+  street: ['street', 'businessstreet', 'address1street', 'homestreet'],
+  city: ['city', 'businesscity', 'address1city', 'homecity'],
+  state: ['state', 'businessstate', 'address1region', 'region', 'homestate'],
+  postal_code: ['pin', 'pincode', 'postalcode', 'zip', 'businesspostalcode', 'address1postalcode'],
+  country: ['country', 'businesscountryregion', 'address1country', 'countryregion'],
+  company: ['company', 'organization', 'organization1name', 'organisation', 'org'],
+  phone: ['phone', 'mobile', 'mobilephone', 'phone1value', 'primaryphone', 'businessphone', 'cell', 'telephone'],
+  email: ['email', 'emailaddress', 'email1value', 'mail'],
+  website: ['website', 'webpage', 'website1value', 'url', 'homepage'],
+  billing_address: ['address', 'billingaddress', 'businessaddress', 'address1formatted'],
+  bio: ['bio', 'notes', 'note', 'description'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Parses the first data row of a contacts CSV export.
+ */
+export const parseContactCsv = (text: string): ImportedContact => {
+  const rows = parseCsvRows(text);
+  if (rows.length < 2) throw new Error('CSV file has no contact rows.');
+
+  const headers = rows[0].map(normalizeHeader);
+  const values = rows[1];
+  const get = (aliases: string[]) => {
+    for (const alias of aliases) {
+      const index = headers.indexOf(alias);
+      if (index !== -1 && values[index]?.trim()) return values[index].trim();
+    }
+    return undefined;
+  };
+
+  const contact: ImportedContact = { urls: [], phones: [], emails: [] };
+  contact.honorific = get(CSV_COLUMNS.honorific);
+  contact.given_name = get(CSV_COLUMNS.given_name);
+  contact.middle_name = get(CSV_COLUMNS.middle_name);
+  contact.family_name = get(CSV_COLUMNS.family_name);
+  contact.full_name = get(CSV_COLUMNS.full_name)
+    || [contact.honorific, contact.given_name, contact.middle_name, contact.family_name].filter(Boolean).join(' ')
+    || undefined;
+  contact.job_title = get(CSV_COLUMNS.job_title);
+  contact.company = get(CSV_COLUMNS.company);
+  contact.phone = get(CSV_COLUMNS.phone);
+  contact.email = get(CSV_COLUMNS.email);
+  if (contact.phone) contact.phones.push({ number: contact.phone, type: 'cell', preferred: true });
+  if (contact.email) contact.emails.push({ address: contact.email, type: 'work', preferred: true });
+  contact.website = get(CSV_COLUMNS.website);
+  const address: PostalAddress = {
+    street: get(CSV_COLUMNS.street) || '',
+    city: get(CSV_COLUMNS.city) || '',
+    state: get(CSV_COLUMNS.state) || '',
+    postal_code: get(CSV_COLUMNS.postal_code) || '',
+    country: get(CSV_COLUMNS.country) || '',
+  };
+  if (!isAddressEmpty(address)) contact.address = address;
+  contact.billing_address = get(CSV_COLUMNS.billing_address) || (contact.address ? formatAddress(contact.address) : undefined);
+  contact.bio = get(CSV_COLUMNS.bio);
+
+  // Any other column holding a URL becomes a link (e.g. "LinkedIn", "Website 2 - Value")
+  headers.forEach((header, index) => {
+    const value = values[index]?.trim();
+    if (!value || !/^https?:\/\//i.test(value) || value === contact.website) return;
+    contact.urls.push({ url: value, label: rows[0][index] });
+  });
+
+  return contact;
+};
+
+// --- Shared ---
+
+// Host patterns for each SOCIAL_PRESETS key
+const SOCIAL_HOSTS: { key: string; pattern: RegExp }[] = [
+  { key: 'whatsapp', pattern: /(^|\.)(wa\.me|whatsapp\.com)$/ },
+  { key: 'linkedin', pattern: /(^|\.)linkedin\.com$/ },
+  { key: 'instagram', pattern: /(^|\.)instagram\.com$/ },
+  { key: 'facebook', pattern: /(^|\.)(facebook\.com|fb\.com|fb\.me)$/ },
+  { key: 'twitter', pattern: /(^|\.)(twitter\.com|x\.com)$/ },
+  { key: 'youtube', pattern: /(^|\.)(youtube\.com|youtu\.be)$/ },
+  { key: 'github', pattern: /(^|\.)github\.com$/ },
+  { key: 'maps', pattern: /(^|\.)(maps\.google\.[a-z.]+|maps\.app\.goo\.gl|goo\.gl)$/ },
+];
+
+/**
+ * Maps a URL to a social preset key ('whatsapp', 'linkedin', ...), falling back
+ * to 'website' for anything unrecognised.
+ */
+export const detectSocialPreset = (url: string, label?: string): string => {
+  try {
+    const host = new URL(url).hostname.toLowerCase();
+    const match = SOCIAL_HOSTS.find(s => s.pattern.test(host));
+    if (match) return match.key;
+    if (host.startsWith('google.') && new URL(url).pathname.startsWith('/maps')) return 'maps';
+  } catch (e) { /* not a URL - fall through */ }
+
+  const fromLabel = label?.toLowerCase();
+  const byLabel = SOCIAL_HOSTS.find(s => fromLabel?.includes(s.key));
+  return byLabel ? byLabel.key : 'website';
+};
+
+/**
+ * Reads a .vcf or .csv File and parses it.
+ */
+export const importContactFile = async (file: File): Promise<ImportedContact> => {
+  const text = await file.text();
+  const isVCard = /\.vcf$/i.test(file.name) || /vcard/i.test(file.type) || /^\s*BEGIN:VCARD/i.test(text);
+  const isCsv = /\.csv$/i.test(file.name) || /csv/i.test(file.type);
+
+  if (isVCard) return parseVCard(text);
+  if (isCsv) return parseContactCsv(text);
+  throw new Error('Unsupported file. Please choose a .vcf or .csv contact file.');
+};
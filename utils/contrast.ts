@@ -0,0 +1,138 @@
+import { Profile } from '../types';
+
+/**
+ * WCAG 2.1 contrast checks for the colours a profile actually renders with.
+ * Text needs 4.5:1 (AA, normal size - button labels are 14-16px), social icons
+ * are graphics and need 3:1 (SC 1.4.11).
+ */
+
+export const AA_TEXT = 4.5;
+export const AA_GRAPHIC = 3;
+
+type RGB = [number, number, number];
+
+export interface ContrastCheck {
+  id: string; // 'text' | 'main' | element id
+  label: string;
+  foreground: string;
+  background: string;
+  ratio: number;
+  required: number;
+  passes: boolean;
+  suggestion: string | null; // Nearest passing foreground, when failing
+}
+
+export const parseHex = (color?: string | null): RGB | null => {
+  const hex = (color || '').trim().replace(/^#/, '');
+  const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex;
+  if (!/^[0-9a-f]{6}$/i.test(full)) return null;
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16)) as RGB;
+};
+
+const toHex = (rgb: RGB) => `#${rgb.map(v => Math.round(v).toString(16).padStart(2, '0')).join('')}`;
+
+const luminance = ([r, g, b]: RGB) => {
+  const channel = (v: number) => {
+    const c = v / 255;
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+};
+
+const ratioOf = (a: RGB, b: RGB) => {
+  const [hi, lo] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (hi + 0.05) / (lo + 0.05);
+};
+
+export const contrastRatio = (foreground: string, background: string): number | null => {
+  const fg = parseHex(foreground);
+  const bg = parseHex(background);
+  return fg && bg ? ratioOf(fg, bg) : null;
+};
+
+const rgbToHsl = ([r, g, b]: RGB): RGB => {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  if (max === min) return [0, 0, l];
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  const h = max === rn ? (gn - bn) / d + (gn < bn ? 6 : 0) : max === gn ? (bn - rn) / d + 2 : (rn - gn) / d + 4;
+  return [h / 6, s, l];
+};
+
+const hslToRgb = ([h, s, l]: RGB): RGB => {
+  if (s === 0) return [l * 255, l * 255, l * 255];
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const hue = (t: number) => {
+    const x = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+    if (x < 1 / 6) return p + (q - p) * 6 * x;
+    if (x < 1 / 2) return q;
+    if (x < 2 / 3) return p + (q - p) * (2 / 3 - x) * 6;
+    return p;
+  };
+  return [hue(h + 1 / 3) * 255, hue(h) * 255, hue(h - 1 / 3) * 255];
+};
+
+/**
+ * Closest colour to `foreground` (same hue and saturation, lightness moved as
+ * little as possible) that reaches `required` against `background`.
+ */
+export const suggestForeground = (foreground: string, background: string, required: number): string | null => {
+  const fg = parseHex(foreground);
+  const bg = parseHex(background);
+  if (!fg || !bg) return null;
+  if (ratioOf(fg, bg) >= required) return toHex(fg);
+
+  const [h, s, l] = rgbToHsl(fg);
+  for (let step = 0.01; step <= 1; step += 0.01) {
+    for (const candidate of [l - step, l + step]) {
+      if (candidate < 0 || candidate > 1) continue;
+      const rgb = hslToRgb([h, s, candidate]);
+      if (ratioOf(rgb, bg) >= required) return toHex(rgb);
+    }
+  }
+  return null;
+};
+
+const check = (id: string, label: string, foreground: string, background: string, required: number): ContrastCheck | null => {
+  const ratio = contrastRatio(foreground, background);
+  if (ratio === null) return null; // Unparseable colour - nothing to judge
+  const passes = ratio >= required;
+  return { id, label, foreground, background, ratio, required, passes, suggestion: passes ? null : suggestForeground(foreground, background, required) };
+};
+
+/**
+ * Every text/background pair on the public profile. Mirrors the defaults PublicProfile falls back to.
+ */
+export const checkProfileContrast = (profile: Partial<Profile>): ContrastCheck[] => {
+  const pageBg = profile.background_color || '#09090b';
+  const textColor = profile.card_text_color || '#ffffff';
+  const main = profile.custom_button_style || { backgroundColor: profile.theme_color || '#d7ba52', textColor };
+  // Transparent / unparseable button fills show the page behind them
+  const fill = (color: string) => (parseHex(color) ? color : pageBg);
+
+  const checks = [
+    check('text', 'Name & bio text', textColor, pageBg, AA_TEXT),
+    check('main', profile.custom_button_text || 'Main button', main.textColor, fill(main.backgroundColor), AA_TEXT),
+    ...(profile.custom_elements || []).map(el => {
+      if (el.type === 'link') return check(el.id, el.label || 'Button', el.style.textColor, fill(el.style.backgroundColor), AA_TEXT);
+      if (el.type === 'social') return check(el.id, `${el.label || 'Social'} icon`, el.style.textColor, fill(el.style.backgroundColor), AA_GRAPHIC);
+      return null;
+    }),
+  ];
+  return checks.filter((c): c is ContrastCheck => c !== null);
+};
+
+/**
+ * 0-100: share of passing pairs, with name/bio text and the main button counting double.
+ */
+export const getAccessibilityScore = (checks: ContrastCheck[]): number => {
+  if (checks.length === 0) return 100;
+  const weight = (c: ContrastCheck) => (c.id === 'text' || c.id === 'main' ? 2 : 1);
+  const total = checks.reduce((sum, c) => sum + weight(c), 0);
+  const passed = checks.filter(c => c.passes).reduce((sum, c) => sum + weight(c), 0);
+  return Math.round((passed / total) * 100);
+};
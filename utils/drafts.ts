@@ -0,0 +1,63 @@
+import { getSupabase } from '../lib/supabase';
+import { Profile } from '../types';
+import { ProfileSnapshot, toSnapshot, diffSnapshots } from './versions';
+
+/**
+ * Draft vs published. The editor saves into profile_drafts (the same content
+ * fields a version snapshot holds); the profiles columns are what visitors,
+ * the share image and the vCard see, and only change on Publish. Drafts live
+ * in their own owner-only table because open profiles are readable by anyone.
+ * Slug and visibility are not drafted - they apply straight away.
+ */
+
+export const hasUnpublishedChanges = (draft?: ProfileSnapshot | null): boolean => Boolean(draft);
+
+// The published row with its draft laid over it - what the owner is editing
+export const withDraft = <T extends Partial<Profile>>(profile: T, draft?: ProfileSnapshot | null): T =>
+  (draft ? { ...profile, ...draft } : profile);
+
+/**
+ * What to store as the draft for the editor's current state: null when it
+ * matches the published profile, so undoing back to it clears the indicator.
+ */
+export const toDraft = (published: ProfileSnapshot, current: Partial<Profile>): ProfileSnapshot | null => {
+  const draft = toSnapshot(current);
+  return diffSnapshots(published, draft).length > 0 ? draft : null;
+};
+
+export const getDraft = async (profileId: string): Promise<ProfileSnapshot | null> => {
+  const { data, error } = await getSupabase().from('profile_drafts').select('data').eq('profile_id', profileId).maybeSingle();
+  if (error) throw error;
+  return (data?.data as ProfileSnapshot) || null;
+};
+
+/**
+ * Writes the draft (null removes it) together with the profile columns that
+ * aren't drafted, at `revision` like updateProfileAtRevision. Returns the
+ * updated profile row, or null when someone else saved first.
+ */
+export const saveDraft = async (
+  profileId: string,
+  revision: number | null,
+  draft: ProfileSnapshot | null,
+  live: Partial<Pick<Profile, 'profile_slug' | 'visibility' | 'storage_folder_path'>>
+): Promise<Partial<Profile> | null> => {
+  const { data, error } = await getSupabase().rpc('save_profile_draft', {
+    p_profile_id: profileId,
+    p_revision: revision,
+    p_draft: draft,
+    p_slug: live.profile_slug,
+    p_visibility: live.visibility,
+    p_folder: live.storage_folder_path,
+  });
+  if (error) throw error;
+  return (data as Partial<Profile>) || null;
+};
+
+// After a publish landed at `revision` - a draft saved from elsewhere since then is kept
+export const clearPublishedDraft = async (profileId: string, revision: number | null): Promise<void> => {
+  let query = getSupabase().from('profile_drafts').delete().eq('profile_id', profileId);
+  if (revision !== null) query = query.lt('revision', revision);
+  const { error } = await query;
+  if (error) throw error;
+};
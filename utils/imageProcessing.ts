@@ -0,0 +1,205 @@
+/**
+ * Client-side image pipeline for uploads
+ *
+ * Phone photos are often 8 MB with GPS in their EXIF. Everything picked in
+ * the editor is redrawn on a canvas before upload: cropped, scaled down to
+ * the preset's maximum, re-encoded as WebP (JPEG where the browser can't)
+ * and given a small thumbnail. Redrawing drops all metadata, EXIF included;
+ * the orientation is applied to the pixels first so nothing ends up sideways.
+ */
+
+export interface ImageCrop {
+  x: number; // Source pixels, after EXIF orientation
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImagePreset {
+  maxWidth: number;
+  maxHeight: number;
+  quality: number; // Starting encoder quality, 0-1
+  maxBytes: number; // Quality steps down until the file fits
+  thumbnailSize?: number; // Longest side; no thumbnail when left out
+  keepTransparency?: boolean; // PNG instead of JPEG where WebP isn't available
+}
+
+export type ImagePurpose = 'profile' | 'cover' | 'icon';
+
+export const IMAGE_PRESETS: Record<ImagePurpose, ImagePreset> = {
+  profile: { maxWidth: 800, maxHeight: 800, quality: 0.85, maxBytes: 250 * 1024, thumbnailSize: 256 },
+  cover: { maxWidth: 1920, maxHeight: 1920, quality: 0.8, maxBytes: 600 * 1024, thumbnailSize: 800 },
+  icon: { maxWidth: 256, maxHeight: 256, quality: 0.9, maxBytes: 60 * 1024, keepTransparency: true },
+};
+
+export interface ProcessedImage {
+  file: File;
+  thumbnail: File | null;
+  width: number;
+  height: number;
+}
+
+const MIN_QUALITY = 0.5;
+
+// Uploads with a thumbnail are stored as <name>_full.<ext> next to <name>_thumb.<ext>
+const FULL_SUFFIX = '_full';
+const THUMB_SUFFIX = '_thumb';
+
+let webpSupport: boolean | null = null;
+
+const supportsWebp = () => {
+  if (webpSupport === null) {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    // Browsers without a WebP encoder silently hand back PNG
+    webpSupport = canvas.toDataURL('image/webp').startsWith('data:image/webp');
+  }
+  return webpSupport;
+};
+
+// Vector icons are already small and would only lose sharpness on a canvas
+export const needsProcessing = (file: File) => file.type !== 'image/svg+xml';
+
+interface DecodedImage {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+  release: () => void;
+}
+
+const decodeImage = async (file: File): Promise<DecodedImage> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+      return { source: bitmap, width: bitmap.width, height: bitmap.height, release: () => bitmap.close() };
+    } catch {
+      // Older Safari rejects the options bag - <img> below applies orientation itself
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('This image format is not supported by your browser.'));
+    image.src = url;
+  });
+  return { source: img, width: img.naturalWidth, height: img.naturalHeight, release: () => URL.revokeObjectURL(url) };
+};
+
+const fitWithin = (width: number, height: number, maxWidth: number, maxHeight: number) => {
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not process the image.');
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  return { canvas, ctx };
+};
+
+/**
+ * Draws the crop at the target size. Big reductions go in halving steps -
+ * one large drawImage step looks jagged in Safari.
+ */
+const renderCrop = (image: DecodedImage, crop: ImageCrop, width: number, height: number, opaque: boolean): HTMLCanvasElement => {
+  let source: CanvasImageSource = image.source;
+  let area = crop;
+
+  while (area.width / 2 >= width && area.height / 2 >= height) {
+    const half = createCanvas(Math.round(area.width / 2), Math.round(area.height / 2));
+    half.ctx.drawImage(source, area.x, area.y, area.width, area.height, 0, 0, half.canvas.width, half.canvas.height);
+    source = half.canvas;
+    area = { x: 0, y: 0, width: half.canvas.width, height: half.canvas.height };
+  }
+
+  const { canvas, ctx } = createCanvas(width, height);
+  if (opaque) {
+    // JPEG has no alpha - flatten transparent areas onto white
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.drawImage(source, area.x, area.y, area.width, area.height, 0, 0, width, height);
+  return canvas;
+};
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the image.'))), type, quality);
+  });
+
+// Steps quality down until the file fits; past the floor the smallest attempt is used
+const encode = async (canvas: HTMLCanvasElement, type: string, preset: ImagePreset): Promise<Blob> => {
+  let blob = await toBlob(canvas, type, preset.quality);
+  if (type === 'image/png') return blob; // Lossless - quality is ignored
+  for (let quality = preset.quality - 0.1; blob.size > preset.maxBytes && quality >= MIN_QUALITY; quality -= 0.1) {
+    blob = await toBlob(canvas, type, quality);
+  }
+  return blob;
+};
+
+const EXTENSIONS: Record<string, string> = { 'image/webp': 'webp', 'image/jpeg': 'jpg', 'image/png': 'png' };
+
+const renameFile = (name: string, type: string) => `${name.replace(/\.[^.]+$/, '') || 'image'}.${EXTENSIONS[type]}`;
+
+const clampCrop = (crop: ImageCrop, width: number, height: number): ImageCrop => {
+  const x = Math.min(Math.max(0, crop.x), width - 1);
+  const y = Math.min(Math.max(0, crop.y), height - 1);
+  return { x, y, width: Math.min(crop.width, width - x), height: Math.min(crop.height, height - y) };
+};
+
+/**
+ * Runs a picked file through the pipeline. `crop` is in source pixels (what
+ * the cropper hands back); without one the whole image is kept.
+ */
+export const processImage = async (file: File, preset: ImagePreset, crop?: ImageCrop): Promise<ProcessedImage> => {
+  const image = await decodeImage(file);
+  try {
+    const area = clampCrop(crop || { x: 0, y: 0, width: image.width, height: image.height }, image.width, image.height);
+    const type = supportsWebp() ? 'image/webp' : preset.keepTransparency ? 'image/png' : 'image/jpeg';
+    const opaque = type === 'image/jpeg';
+
+    const size = fitWithin(area.width, area.height, preset.maxWidth, preset.maxHeight);
+    const blob = await encode(renderCrop(image, area, size.width, size.height, opaque), type, preset);
+
+    let thumbnail: File | null = null;
+    const thumbSize = preset.thumbnailSize;
+    if (thumbSize && Math.max(size.width, size.height) > thumbSize) {
+      const thumb = fitWithin(area.width, area.height, thumbSize, thumbSize);
+      const thumbBlob = await encode(renderCrop(image, area, thumb.width, thumb.height, opaque), type, preset);
+      thumbnail = new File([thumbBlob], renameFile(file.name, type), { type });
+    }
+
+    return { file: new File([blob], renameFile(file.name, type), { type }), thumbnail, width: size.width, height: size.height };
+  } finally {
+    image.release();
+  }
+};
+
+/**
+ * Storage paths for a processed image under `basePath` (no extension).
+ * Only images with a thumbnail get the _full / _thumb pair.
+ */
+export const getImagePaths = (basePath: string, image: ProcessedImage) => {
+  const ext = image.file.name.split('.').pop();
+  if (!image.thumbnail) return { full: `${basePath}.${ext}`, thumb: null };
+  return { full: `${basePath}${FULL_SUFFIX}.${ext}`, thumb: `${basePath}${THUMB_SUFFIX}.${ext}` };
+};
+
+// The thumbnail stored next to an uploaded image; null for older uploads, templates and previews
+export const getThumbnailUrl = (url?: string | null): string | null => {
+  const match = url?.match(new RegExp(`^(.*)${FULL_SUFFIX}(\\.\\w+)(\\?.*)?$`));
+  return match ? `${match[1]}${THUMB_SUFFIX}${match[2]}${match[3] || ''}` : null;
+};
+
+// srcset for an uploaded image, letting small screens take the thumbnail
+export const getImageSrcSet = (url: string | null | undefined, purpose: ImagePurpose): string | undefined => {
+  const thumb = getThumbnailUrl(url);
+  const preset = IMAGE_PRESETS[purpose];
+  return thumb ? `${thumb} ${preset.thumbnailSize}w, ${url} ${preset.maxWidth}w` : undefined;
+};
@@ -0,0 +1,95 @@
+import { getSupabase } from '../lib/supabase';
+import { Lead, LeadInsert, Profile } from '../types';
+
+export interface LeadFormInput {
+    name: string;
+    phone: string;
+    email: string;
+    company: string;
+    note: string;
+    consent: boolean;
+}
+
+const clean = (value: string, max: number) => value.trim().slice(0, max) || null;
+
+/**
+ * Validates and stores a visitor's details against the profile owner.
+ * Throws an Error with a user-facing message on invalid input or failure.
+ */
+export const submitLead = async (profile: Partial<Profile>, input: LeadFormInput): Promise<void> => {
+    if (!profile.id || !profile.user_id) throw new Error('This profile cannot receive contact details.');
+    if (!input.name.trim()) throw new Error('Please enter your name.');
+    if (!input.phone.trim() && !input.email.trim()) throw new Error('Please enter a phone number or email.');
+    if (input.email.trim() && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input.email.trim())) throw new Error('Please enter a valid email.');
+    if (!input.consent) throw new Error('Please tick the consent box to share your details.');
+
+    const lead: LeadInsert = {
+        profile_id: profile.id,
+        owner_id: profile.user_id,
+        name: input.name.trim().slice(0, 120),
+        phone: clean(input.phone, 40),
+        email: clean(input.email, 200),
+        company: clean(input.company, 160),
+        note: clean(input.note, 1000),
+        consent: true,
+    };
+
+    // No .select() - visitors are allowed to insert but not read leads
+    const { error } = await getSupabase().from('leads').insert(lead);
+    if (error) {
+        console.error('Lead submit error:', error);
+        throw new Error('Could not send your details. Please try again.');
+    }
+};
+
+const PAGE_SIZE = 1000; // PostgREST's default row cap
+
+/**
+ * Leads for the signed-in owner, newest first. Paged so a busy trade fair
+ * doesn't stop at the row cap (and the CSV export with it).
+ */
+export const fetchLeads = async (ownerId: string): Promise<Lead[]> => {
+    const leads: Lead[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await getSupabase()
+            .from('leads')
+            .select('*')
+            .eq('owner_id', ownerId)
+            .order('created_at', { ascending: false })
+            .order('id') // Stable across pages when leads share a timestamp
+            .range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        const page = (data || []) as Lead[];
+        leads.push(...page);
+        if (page.length < PAGE_SIZE) return leads;
+    }
+};
+
+export const setLeadsRead = async (ids: string[], isRead: boolean): Promise<void> => {
+    if (ids.length === 0) return;
+    const { error } = await getSupabase().from('leads').update({ is_read: isRead }).in('id', ids);
+    if (error) throw error;
+};
+
+export const deleteLeads = async (ids: string[]): Promise<void> => {
+    if (ids.length === 0) return;
+    const { error } = await getSupabase().from('leads').delete().in('id', ids);
+    if (error) throw error;
+};
+
+const CSV_HEADERS = ['Name', 'Phone', 'Email', 'Company', 'Note', 'Received'];
+
+const csvCell = (value: string | null) => {
+    let text = value || '';
+    // Visitors type these values - stop spreadsheets evaluating them as formulas (phone numbers like +91... are left alone)
+    if (/^[=@\t\r]|^[+-][^\d\s(]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV with a header row, CRLF line endings and a BOM so Excel opens UTF-8 names correctly.
+ */
+export const leadsToCsv = (leads: Lead[]): string => {
+    const rows = leads.map(lead => [lead.name, lead.phone, lead.email, lead.company, lead.note, lead.created_at]);
+    return '\uFEFF' + [CSV_HEADERS, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,100 @@
+import { Profile, PostalAddress, PhoneEntry, EmailEntry } from '../types';
+
+/**
+ * Name, address & contact-list helpers shared by the editor, public profile and vCard output.
+ * Older rows only have `full_name` / `billing_address` / `phone` / `email`, so every getter falls back to them.
+ */
+
+export interface StructuredName {
+  honorific: string;
+  given_name: string;
+  middle_name: string;
+  family_name: string;
+}
+
+export const HONORIFICS = ['', 'Mr.', 'Ms.', 'Mrs.', 'Dr.', 'Prof.', 'Adv.', 'CA', 'Er.'];
+
+export const EMPTY_ADDRESS: PostalAddress = { street: '', city: '', state: '', postal_code: '', country: '' };
+
+/**
+ * Best-effort split of a free-text name: first word is the given name, last word
+ * the family name, everything in between the middle name.
+ */
+export const splitFullName = (fullName: string): StructuredName => {
+  const parts = fullName.trim().split(/\s+/).filter(Boolean);
+  const honorific = parts.length > 1 && HONORIFICS.includes(parts[0]) ? parts.shift()! : '';
+  if (parts.length === 0) return { honorific, given_name: '', middle_name: '', family_name: '' };
+  if (parts.length === 1) return { honorific, given_name: parts[0], middle_name: '', family_name: '' };
+  return {
+    honorific,
+    given_name: parts[0],
+    middle_name: parts.slice(1, -1).join(' '),
+    family_name: parts[parts.length - 1],
+  };
+};
+
+export const composeFullName = (name: Partial<StructuredName>): string =>
+  [name.honorific, name.given_name, name.middle_name, name.family_name]
+    .map(p => (p || '').trim())
+    .filter(Boolean)
+    .join(' ');
+
+const hasStructuredName = (profile: Partial<Profile>) =>
+  Boolean(profile.given_name || profile.family_name || profile.middle_name);
+
+/**
+ * Structured name for a profile, derived from `full_name` for legacy rows.
+ */
+export const getStructuredName = (profile: Partial<Profile>): StructuredName => {
+  if (!hasStructuredName(profile)) return splitFullName(profile.full_name || '');
+  return {
+    honorific: profile.honorific || '',
+    given_name: profile.given_name || '',
+    middle_name: profile.middle_name || '',
+    family_name: profile.family_name || '',
+  };
+};
+
+export const isAddressEmpty = (address?: PostalAddress | null) =>
+  !address || Object.values(address).every(v => !(v || '').trim());
+
+/**
+ * Structured address for a profile. Legacy rows get their whole
+ * `billing_address` text in `street`.
+ */
+export const getAddress = (profile: Partial<Profile>): PostalAddress => {
+  if (!isAddressEmpty(profile.address)) return { ...EMPTY_ADDRESS, ...profile.address };
+  return { ...EMPTY_ADDRESS, street: (profile.billing_address || '').trim() };
+};
+
+/**
+ * Multi-line display form, e.g. "12 MG Road\nPune, Maharashtra 411001\nIndia".
+ */
+export const formatAddress = (address?: PostalAddress | null): string => {
+  if (!address) return '';
+  const region = [address.state, address.postal_code].map(p => (p || '').trim()).filter(Boolean).join(' ');
+  const cityLine = [address.city, region].map(p => (p || '').trim()).filter(Boolean).join(', ');
+  return [address.street, cityLine, address.country].map(p => (p || '').trim()).filter(Boolean).join('\n');
+};
+
+/**
+ * Typed phone list for a profile. Legacy rows get a single mobile entry from `phone`.
+ */
+export const getPhones = (profile: Partial<Profile>): PhoneEntry[] => {
+  if (profile.phones && profile.phones.length > 0) return profile.phones.filter(p => (p.number || '').trim());
+  return profile.phone ? [{ id: 'legacy-phone', number: profile.phone, type: 'cell', preferred: true }] : [];
+};
+
+/**
+ * Typed email list for a profile. Legacy rows get a single work entry from `email`.
+ */
+export const getEmails = (profile: Partial<Profile>): EmailEntry[] => {
+  if (profile.emails && profile.emails.length > 0) return profile.emails.filter(e => (e.address || '').trim());
+  return profile.email ? [{ id: 'legacy-email', address: profile.email, type: 'work', preferred: true }] : [];
+};
+
+// Preferred entry, falling back to the first one
+export const getPreferred = <T extends { preferred: boolean }>(entries: T[]): T | undefined =>
+  entries.find(e => e.preferred) || entries[0];
+
+export const toWhatsAppUrl = (number: string) => `https://wa.me/${number.replace(/\D/g, '')}`;
@@ -0,0 +1,107 @@
+import { Profile } from '../types';
+import { PUBLIC_SITE_URL } from '../constants';
+import { getShareUrl, getShareImageUrl } from './profileUrl';
+
+/**
+ * Title / description / image used for link previews of a public profile.
+ * Shared by the edge renderer (api/profile-meta.ts) and PublicProfile, so
+ * crawlers and the browser tab agree.
+ */
+
+export interface ProfileMeta {
+  title: string;
+  description: string;
+  image: string | null;
+  imageSize?: [number, number]; // Known for the generated share card
+  url: string; // Canonical share URL (/p/:slug, no hash)
+  noindex?: boolean; // Unlisted profiles stay out of search engines
+}
+
+export const SITE_NAME = 'NFC cards by CanopyCorp';
+
+// Stock covers every new profile starts with - not worth showing in a preview
+const TEMPLATE_COVER_PATH = '/background_photos/templates/';
+
+const truncate = (text: string, max: number) =>
+  text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+
+/**
+ * The profile's own cover, ignoring the stock template covers.
+ */
+export const getCoverImage = (profile: Partial<Profile>): string | null =>
+  profile.background_photo_url && !profile.background_photo_url.includes(TEMPLATE_COVER_PATH)
+    ? profile.background_photo_url
+    : null;
+
+export const getProfileMeta = (profile: Partial<Profile>): ProfileMeta => {
+  const name = (profile.full_name || '').trim() || 'Digital Business Card';
+  const role = [profile.job_title, profile.company].map(p => (p || '').trim()).filter(Boolean).join(' · ');
+  const bio = (profile.bio || '').replace(/\s+/g, ' ').trim();
+
+  return {
+    title: role ? `${name} – ${role}` : name,
+    description: truncate(bio || `View ${name}'s digital business card and save their contact.`, 200),
+    // Generated share card when we know the slug, otherwise the best raw image we have
+    image: profile.profile_slug
+      ? getShareImageUrl(profile.profile_slug, profile.updated_at)
+      : getCoverImage(profile) || profile.front_side || profile.profile_photo_url || null,
+    imageSize: profile.profile_slug ? [1200, 630] : undefined,
+    url: profile.profile_slug ? getShareUrl(profile.profile_slug) : PUBLIC_SITE_URL,
+    noindex: profile.visibility === 'unlisted',
+  };
+};
+
+/**
+ * <meta> tags as [attribute, key, content] triples - og:* use `property`, twitter:* and description use `name`.
+ */
+export const getMetaTags = (meta: ProfileMeta): [string, string, string][] => {
+  const tags: [string, string, string][] = [
+    ['name', 'description', meta.description],
+    ['property', 'og:type', 'profile'],
+    ['property', 'og:site_name', SITE_NAME],
+    ['property', 'og:title', meta.title],
+    ['property', 'og:description', meta.description],
+    ['property', 'og:url', meta.url],
+    ['name', 'twitter:card', meta.image ? 'summary_large_image' : 'summary'],
+    ['name', 'twitter:title', meta.title],
+    ['name', 'twitter:description', meta.description],
+  ];
+  if (meta.noindex) tags.push(['name', 'robots', 'noindex, nofollow']);
+  if (meta.image) {
+    tags.push(['property', 'og:image', meta.image], ['name', 'twitter:image', meta.image]);
+    if (meta.imageSize) {
+      tags.push(['property', 'og:image:width', String(meta.imageSize[0])], ['property', 'og:image:height', String(meta.imageSize[1])]);
+    }
+  }
+  return tags;
+};
+
+/**
+ * Sets the tab title and meta tags in the live document (for crawlers that run JS).
+ * Returns a cleanup that restores the previous state.
+ */
+export const applyDocumentMeta = (meta: ProfileMeta): (() => void) => {
+  const previousTitle = document.title;
+  document.title = meta.title;
+
+  const added: HTMLMetaElement[] = [];
+  const restored: [HTMLMetaElement, string][] = [];
+  getMetaTags(meta).forEach(([attr, key, content]) => {
+    let el = document.head.querySelector<HTMLMetaElement>(`meta[${attr}="${key}"]`);
+    if (el) {
+      restored.push([el, el.content]);
+    } else {
+      el = document.createElement('meta');
+      el.setAttribute(attr, key);
+      document.head.appendChild(el);
+      added.push(el);
+    }
+    el.content = content;
+  });
+
+  return () => {
+    document.title = previousTitle;
+    added.forEach(el => el.remove());
+    restored.forEach(([el, content]) => { el.content = content; });
+  };
+};
@@ -0,0 +1,45 @@
+import { PUBLIC_SITE_URL } from '../constants';
+import { ProfileSource } from '../types';
+
+/**
+ * Public profile links with a source marker, e.g. https://www.canopycorp.in/#/p/jane?src=qr
+ * The marker sits inside the hash so it survives HashRouter and is readable via useLocation().search.
+ */
+
+export const SOURCE_PARAM = 'src';
+
+const SOURCES: ProfileSource[] = ['nfc', 'qr', 'direct'];
+
+export const getProfileUrl = (slug: string, source?: ProfileSource): string => {
+  const url = `${PUBLIC_SITE_URL}/#/p/${slug}`;
+  return source && source !== 'direct' ? `${url}?${SOURCE_PARAM}=${source}` : url;
+};
+
+/**
+ * Link for pasting into chats / social posts. Served by the edge renderer so
+ * previews show the person's name and photo, then forwards to the hash route.
+ */
+export const getShareUrl = (slug: string): string => `${PUBLIC_SITE_URL}/p/${slug}`;
+
+/**
+ * 1200x630 share card rendered by api/share-image. The `v` param changes with
+ * every save, so CDNs and chat apps can cache each version forever.
+ */
+export const getShareImageUrl = (slug: string, updatedAt?: string | null): string => {
+  const version = updatedAt ? Date.parse(updatedAt) : NaN;
+  return `${PUBLIC_SITE_URL}/api/share-image?slug=${encodeURIComponent(slug)}${isNaN(version) ? '' : `&v=${version}`}`;
+};
+
+/**
+ * True for any canopycorp profile link to this slug, with or without a source marker.
+ */
+export const isProfileUrl = (url: string, slug: string | null | undefined): boolean =>
+  Boolean(slug) && SOURCES.some(source => url === getProfileUrl(slug!, source));
+
+/**
+ * Reads the source marker from a router search string. Anything unknown counts as direct.
+ */
+export const parseProfileSource = (search: string): ProfileSource => {
+  const value = new URLSearchParams(search).get(SOURCE_PARAM);
+  return SOURCES.includes(value as ProfileSource) ? (value as ProfileSource) : 'direct';
+};
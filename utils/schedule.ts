@@ -0,0 +1,86 @@
+import { CustomButtonElement } from '../types';
+
+/**
+ * Scheduled buttons. Dates and hours are stored without a timezone and read on
+ * the visitor's clock, so "9:00-17:00" means nine to five wherever the card is
+ * opened. Elements without any rule are always shown.
+ */
+
+export type ScheduleState = 'always' | 'live' | 'upcoming' | 'expired' | 'paused';
+
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+type Schedulable = Pick<CustomButtonElement, 'activeFrom' | 'activeUntil' | 'activeDays' | 'activeHours'>;
+
+// "YYYY-MM-DDTHH:mm" without an offset is parsed as local time
+const parseLocal = (value?: string | null): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const toMinutes = (hhmm: string): number | null => {
+  const match = hhmm.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+export const hasSchedule = (el: Schedulable): boolean =>
+  Boolean(parseLocal(el.activeFrom) || parseLocal(el.activeUntil) || el.activeDays?.length || el.activeHours);
+
+// Day-of-week and time-of-day rules only
+const matchesRecurring = (el: Schedulable, now: Date): boolean => {
+  const days = el.activeDays?.length ? el.activeDays : null;
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const today = now.getDay();
+
+  const start = el.activeHours ? toMinutes(el.activeHours.start) : null;
+  const end = el.activeHours ? toMinutes(el.activeHours.end) : null;
+  if (start === null || end === null || start === end) {
+    return !days || days.includes(today);
+  }
+
+  if (start < end) {
+    return minutes >= start && minutes < end && (!days || days.includes(today));
+  }
+  // Overnight window: the early-morning part belongs to the previous day's slot
+  if (minutes >= start) return !days || days.includes(today);
+  if (minutes < end) return !days || days.includes((today + 6) % 7);
+  return false;
+};
+
+export const getScheduleState = (el: Schedulable, now: Date = new Date()): ScheduleState => {
+  if (!hasSchedule(el)) return 'always';
+  const from = parseLocal(el.activeFrom);
+  const until = parseLocal(el.activeUntil);
+  if (until && now >= until) return 'expired';
+  if (from && now < from) return 'upcoming';
+  return matchesRecurring(el, now) ? 'live' : 'paused';
+};
+
+export const isScheduledVisible = (el: Schedulable, now: Date = new Date()): boolean => {
+  const state = getScheduleState(el, now);
+  return state === 'always' || state === 'live';
+};
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString(undefined, { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const formatDays = (days: number[]): string => {
+  const sorted = [...days].sort((a, b) => a - b);
+  if (sorted.join() === '1,2,3,4,5') return 'Weekdays';
+  if (sorted.join() === '0,6') return 'Weekends';
+  return sorted.map(d => DAY_LABELS[d]).join(', ');
+};
+
+// One-line summary for the editor, e.g. "Weekdays · 09:00-17:00 · until 31 Dec 2026, 18:00"
+export const describeSchedule = (el: Schedulable): string => {
+  const parts: string[] = [];
+  const from = parseLocal(el.activeFrom);
+  const until = parseLocal(el.activeUntil);
+  if (el.activeDays?.length && el.activeDays.length < 7) parts.push(formatDays(el.activeDays));
+  if (el.activeHours) parts.push(`${el.activeHours.start}-${el.activeHours.end}`);
+  if (from) parts.push(`from ${formatDateTime(from)}`);
+  if (until) parts.push(`until ${formatDateTime(until)}`);
+  return parts.join(' · ');
+};
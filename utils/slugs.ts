@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react';
+import { getSupabase } from '../lib/supabase';
+
+/**
+ * Profile slugs are printed into QR codes and written to NFC tags, so a slug
+ * is never really given up: renaming moves the old one into
+ * profile_slug_history, get_public_profile still resolves it, and nobody else
+ * can claim it (see the SQL notes in lib/supabase.ts).
+ */
+
+export type SlugAvailability = 'idle' | 'checking' | 'available' | 'taken' | 'reserved' | 'invalid' | 'error';
+
+export interface SlugHistoryEntry {
+  slug: string;
+  retired_at: string;
+}
+
+// Same characters the slug input allows
+export const sanitizeSlug = (value: string) => value.toLowerCase().replace(/[^a-z0-9-_]/g, '');
+
+export const isValidSlug = (slug: string) => /^[a-z0-9_-]{3,}$/.test(slug);
+
+export const SLUG_AVAILABILITY_MESSAGES: Record<Exclude<SlugAvailability, 'idle'>, string> = {
+  checking: 'Checking availability...',
+  available: 'Available',
+  taken: 'Already used by another card',
+  reserved: 'Reserved - this link still redirects to another card',
+  invalid: 'Use at least 3 letters, numbers, hyphens or underscores',
+  error: 'Could not check availability',
+};
+
+export const checkSlugAvailability = async (slug: string, profileId?: string): Promise<'available' | 'taken' | 'reserved'> => {
+  const { data, error } = await getSupabase().rpc('check_profile_slug', { p_slug: slug, p_profile_id: profileId || null });
+  if (error) throw error;
+  return (data || 'available') as 'available' | 'taken' | 'reserved';
+};
+
+/**
+ * Debounced availability of `slug` for the profile being edited. Stays 'idle'
+ * while the slug is the one already saved on the profile.
+ */
+export const useSlugAvailability = (slug: string, savedSlug: string | null, profileId?: string, delayMs = 400): SlugAvailability => {
+  const [status, setStatus] = useState<SlugAvailability>('idle');
+
+  useEffect(() => {
+    if (!slug || slug === savedSlug) {
+      setStatus('idle');
+      return;
+    }
+    if (!isValidSlug(slug)) {
+      setStatus('invalid');
+      return;
+    }
+
+    let cancelled = false;
+    setStatus('checking');
+    const timer = window.setTimeout(() => {
+      checkSlugAvailability(slug, profileId)
+        .then(result => { if (!cancelled) setStatus(result); })
+        .catch(err => {
+          console.error('Slug availability check failed:', err);
+          if (!cancelled) setStatus('error');
+        });
+    }, delayMs);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [slug, savedSlug, profileId, delayMs]);
+
+  return status;
+};
+
+// Old slugs of a profile the signed-in user owns, newest first
+export const getSlugHistory = async (profileId: string): Promise<SlugHistoryEntry[]> => {
+  const { data, error } = await getSupabase()
+    .from('profile_slug_history')
+    .select('slug, retired_at')
+    .eq('profile_id', profileId)
+    .order('retired_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as SlugHistoryEntry[];
+};
+
+/**
+ * True when a save failed because the slug belongs to someone else - either a
+ * live profile (unique index) or another user's retired slug (trigger).
+ */
+export const isSlugConflict = (error: any) =>
+  error?.code === '23505' && /profile_slug|profile link/i.test(`${error.message} ${error.details || ''}`);
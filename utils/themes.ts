@@ -0,0 +1,69 @@
+import { Profile, ProfileTheme, CustomButtonElement } from '../types';
+import { THEME_PRESETS } from '../constants';
+
+/**
+ * Theme presets: bundle page colours, font, photo shape and button styles so a
+ * whole profile can be restyled in one click.
+ */
+
+// Fields a theme writes onto the profile directly
+const PROFILE_FIELDS = ['theme_color', 'background_color', 'card_color', 'card_text_color', 'font_family', 'card_shape'] as const;
+
+/**
+ * Returns the profile fields to merge in to apply `theme`, restyling the main
+ * button and every existing custom element. Labels, URLs and icons are untouched.
+ */
+export const applyTheme = (profile: Partial<Profile>, theme: ProfileTheme): Partial<Profile> => {
+  const elements = (profile.custom_elements || []).map((el): CustomButtonElement => {
+    if (el.type === 'link') return { ...el, style: { ...theme.link_button } };
+    // Social icons keep their brand colour unless the theme says otherwise
+    if (el.type === 'social' && theme.social_button) return { ...el, style: { ...el.style, ...theme.social_button } };
+    return el; // Content blocks follow the page colours
+  });
+
+  const updates: Partial<Profile> = {
+    custom_button_style: { ...theme.main_button },
+    custom_elements: elements,
+  };
+  PROFILE_FIELDS.forEach(field => { updates[field] = theme[field]; });
+  return updates;
+};
+
+/**
+ * Captures the profile's current look as a theme. Link button style is taken
+ * from the first action button, social colours from the first social icon if
+ * all icons share one colour.
+ */
+export const themeFromProfile = (profile: Partial<Profile>, name: string, id: string): ProfileTheme => {
+  const base = THEME_PRESETS[0];
+  const link = profile.custom_elements?.find(el => el.type === 'link');
+  const socials = profile.custom_elements?.filter(el => el.type === 'social') || [];
+  const sharedSocial = socials.length > 0 && socials.every(el =>
+    el.style.backgroundColor === socials[0].style.backgroundColor && el.style.textColor === socials[0].style.textColor);
+
+  return {
+    id,
+    name,
+    theme_color: profile.theme_color || base.theme_color,
+    background_color: profile.background_color || base.background_color,
+    card_color: profile.card_color || base.card_color,
+    card_text_color: profile.card_text_color || base.card_text_color,
+    font_family: profile.font_family || base.font_family,
+    card_shape: profile.card_shape || base.card_shape,
+    main_button: { ...(profile.custom_button_style || base.main_button) },
+    link_button: link ? { ...link.style } : { ...base.link_button },
+    social_button: sharedSocial ? { backgroundColor: socials[0].style.backgroundColor, textColor: socials[0].style.textColor } : null,
+  };
+};
+
+/**
+ * True when the profile's page colours, font, shape and main button match the theme.
+ */
+export const isThemeApplied = (profile: Partial<Profile>, theme: ProfileTheme): boolean => {
+  const main = profile.custom_button_style;
+  return PROFILE_FIELDS.every(field => (profile[field] || '').toString().toLowerCase() === theme[field].toLowerCase())
+    && Boolean(main)
+    && main!.backgroundColor.toLowerCase() === theme.main_button.backgroundColor.toLowerCase()
+    && main!.textColor.toLowerCase() === theme.main_button.textColor.toLowerCase()
+    && main!.shape === theme.main_button.shape;
+};
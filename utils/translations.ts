@@ -0,0 +1,114 @@
+import { CustomButtonElement, Profile, ProfileTranslation } from '../types';
+import { SUPPORTED_LOCALES, DEFAULT_LOCALE } from '../constants';
+
+/**
+ * Per-locale profile text. The regular fields hold the default language;
+ * `translations[locale]` overrides individual strings and anything left blank
+ * falls back to the original, so a half-finished translation still reads well.
+ */
+
+type ProfileTextField = 'bio' | 'company' | 'job_title' | 'custom_button_text';
+
+const PROFILE_FIELDS: { field: ProfileTextField; label: string }[] = [
+  { field: 'job_title', label: 'Job Title' },
+  { field: 'company', label: 'Company' },
+  { field: 'bio', label: 'Bio' },
+  { field: 'custom_button_text', label: 'Main Button' },
+];
+
+export interface TranslatableString {
+  key: string; // Profile field name, or the element id for buttons/blocks
+  label: string;
+  source: string; // Text in the default language
+  multiline?: boolean;
+  elementId?: string;
+}
+
+export const getLocaleName = (code: string): string =>
+  SUPPORTED_LOCALES.find(l => l.code === code)?.nativeName || code.toUpperCase();
+
+export const getDefaultLocale = (profile: Partial<Profile>): string => profile.default_locale || DEFAULT_LOCALE;
+
+// Heading/text blocks translate their text; link buttons their label; social icons have no visible text
+const getElementText = (el: CustomButtonElement): string | null => {
+  if (el.type === 'link') return el.label;
+  if (el.type === 'heading' || el.type === 'text') return el.data?.text || '';
+  return null;
+};
+
+export const getTranslatableStrings = (profile: Partial<Profile>): TranslatableString[] => {
+  const strings: TranslatableString[] = PROFILE_FIELDS
+    .map(({ field, label }) => ({ key: field, label, source: (profile[field] as string | null | undefined) || '', multiline: field === 'bio' }))
+    .filter(s => s.source.trim());
+
+  (profile.custom_elements || []).forEach(el => {
+    const text = getElementText(el);
+    if (!text?.trim()) return;
+    strings.push({
+      key: el.id,
+      elementId: el.id,
+      label: el.type === 'link' ? 'Button' : el.type === 'heading' ? 'Heading' : 'Text Block',
+      source: text,
+      multiline: el.type === 'text',
+    });
+  });
+  return strings;
+};
+
+export const getTranslatedValue = (translation: ProfileTranslation | undefined, item: TranslatableString): string =>
+  (item.elementId ? translation?.elements?.[item.elementId] : translation?.[item.key as ProfileTextField]) || '';
+
+export const setTranslatedValue = (translation: ProfileTranslation | undefined, item: TranslatableString, value: string): ProfileTranslation => {
+  const next: ProfileTranslation = { ...translation };
+  if (item.elementId) next.elements = { ...next.elements, [item.elementId]: value };
+  else next[item.key as ProfileTextField] = value;
+  return next;
+};
+
+export const countMissing = (profile: Partial<Profile>, locale: string): number => {
+  const translation = profile.translations?.[locale];
+  return getTranslatableStrings(profile).filter(item => !getTranslatedValue(translation, item).trim()).length;
+};
+
+/**
+ * Locales a visitor can switch between: the default language first, then every added translation.
+ */
+export const getProfileLocales = (profile: Partial<Profile>): string[] => {
+  const base = getDefaultLocale(profile);
+  return [base, ...Object.keys(profile.translations || {}).filter(code => code !== base)];
+};
+
+/**
+ * First of the visitor's preferred languages (navigator.languages) the profile offers,
+ * matching on the primary subtag so "mr-IN" picks "mr".
+ */
+export const pickLocale = (available: string[], preferred: readonly string[]): string => {
+  for (const lang of preferred) {
+    const primary = lang.toLowerCase().split('-')[0];
+    if (available.includes(primary)) return primary;
+  }
+  return available[0] || DEFAULT_LOCALE;
+};
+
+export const localizeProfile = <T extends Partial<Profile>>(profile: T, locale: string): T => {
+  const translation = profile.translations?.[locale];
+  if (!translation || locale === getDefaultLocale(profile)) return profile;
+
+  const pick = (value: string | undefined, fallback: string | null | undefined) => (value && value.trim() ? value : fallback);
+  const elements = translation.elements || {};
+
+  return {
+    ...profile,
+    bio: pick(translation.bio, profile.bio),
+    company: pick(translation.company, profile.company),
+    job_title: pick(translation.job_title, profile.job_title),
+    custom_button_text: pick(translation.custom_button_text, profile.custom_button_text),
+    custom_elements: profile.custom_elements?.map(el => {
+      const text = elements[el.id];
+      if (!text?.trim()) return el;
+      if (el.type === 'link') return { ...el, label: text };
+      if (el.type === 'heading' || el.type === 'text') return { ...el, data: { ...el.data, text } };
+      return el;
+    }),
+  };
+};
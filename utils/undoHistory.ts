@@ -0,0 +1,107 @@
+import { useCallback, useState, SetStateAction } from 'react';
+
+/**
+ * useState with an undo/redo history, for editor forms.
+ *
+ * Rapid edits to the same fields (typing in one input) collapse into a single
+ * step: a change is merged into the previous one when it lands within
+ * `coalesceMs`, touches exactly the same top-level keys and doesn't add or
+ * remove array items - so deleting a button is always its own step.
+ */
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastKeys: string | null; // Changed-keys signature of the newest step, null = don't merge into it
+  lastAt: number;
+}
+
+export interface UndoHistoryOptions {
+  coalesceMs?: number;
+  limit?: number;
+}
+
+const resolve = <T>(action: SetStateAction<T>, prev: T): T =>
+  typeof action === 'function' ? (action as (p: T) => T)(prev) : action;
+
+// Sorted top-level keys whose values differ; null when an array grew or shrank
+const changeSignature = (prev: any, next: any): string | null => {
+  const keys = Array.from(new Set([...Object.keys(prev || {}), ...Object.keys(next || {})]))
+    .filter(key => prev?.[key] !== next?.[key])
+    .sort();
+  const structural = keys.some(key =>
+    (Array.isArray(prev?.[key]) || Array.isArray(next?.[key])) && prev?.[key]?.length !== next?.[key]?.length
+  );
+  return structural ? null : keys.join(',');
+};
+
+export const useUndoHistory = <T>(initial: T, { coalesceMs = 1000, limit = 100 }: UndoHistoryOptions = {}) => {
+  const [history, setHistory] = useState<History<T>>({ past: [], present: initial, future: [], lastKeys: null, lastAt: 0 });
+
+  // Recorded change - what every user edit goes through
+  const set = useCallback((action: SetStateAction<T>) => {
+    setHistory(h => {
+      const next = resolve(action, h.present);
+      if (next === h.present) return h;
+
+      const now = Date.now();
+      const keys = changeSignature(h.present, next);
+      const merge = keys !== null && keys === h.lastKeys && now - h.lastAt < coalesceMs && h.past.length > 0;
+
+      return {
+        past: merge ? h.past : [...h.past, h.present].slice(-limit),
+        present: next,
+        future: [],
+        lastKeys: keys,
+        lastAt: now,
+      };
+    });
+  }, [coalesceMs, limit]);
+
+  // Unrecorded change applied to every snapshot, e.g. a blob: preview URL swapped for its uploaded URL
+  const replace = useCallback((action: SetStateAction<T>) => {
+    setHistory(h => ({
+      ...h,
+      past: h.past.map(s => resolve(action, s)),
+      present: resolve(action, h.present),
+      future: h.future.map(s => resolve(action, s)),
+    }));
+  }, []);
+
+  // New baseline (e.g. after loading from the server) - history starts empty
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [], lastKeys: null, lastAt: 0 });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => h.past.length === 0 ? h : {
+      past: h.past.slice(0, -1),
+      present: h.past[h.past.length - 1],
+      future: [h.present, ...h.future],
+      lastKeys: null,
+      lastAt: 0,
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => h.future.length === 0 ? h : {
+      past: [...h.past, h.present],
+      present: h.future[0],
+      future: h.future.slice(1),
+      lastKeys: null,
+      lastAt: 0,
+    });
+  }, []);
+
+  return {
+    state: history.present,
+    set,
+    replace,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
@@ -1,76 +1,199 @@
+import { Profile, CustomButtonElement, PhoneType, EmailType, Lead } from '../types';
+import { serializeVCard, serializeVCards, VCardProperty, VCardVersion } from './vcardSerializer';
+import { fetchEmbeddableImage, EmbeddedImage } from './vcardMedia';
+import { getStructuredName, getAddress, isAddressEmpty, getPhones, getEmails } from './profileFormat';
 
-import { Profile, CustomButtonElement } from '../types';
-
-export const generateVCardContent = (profile: Partial<Profile>): string => {
-  const content = [
-    'BEGIN:VCARD',
-    'VERSION:3.0',
-    `FN:${profile.full_name || ''}`,
-    `N:${(profile.full_name || '').split(' ').reverse().join(';')};;;`,
-    profile.company ? `ORG:${profile.company}` : '',
-    profile.phone ? `TEL;TYPE=CELL:${profile.phone}` : '',
-    profile.email ? `EMAIL;TYPE=INTERNET:${profile.email}` : '',
-    profile.website ? `URL:${profile.website}` : '',
-    profile.bio ? `NOTE:${profile.bio}` : '',
-    profile.billing_address ? `ADR;TYPE=WORK,POSTAL:;;${profile.billing_address.replace(/\n/g, ', ')};;;;` : '', // Basic single-line address mapping
-  ];
+export interface VCardMedia {
+  photo?: EmbeddedImage | null;
+  logo?: EmbeddedImage | null;
+}
 
-  // Append GST to Note if present
-  if (profile.gst_number) {
-    const noteIndex = content.findIndex(c => c.startsWith('NOTE:'));
-    if (noteIndex !== -1) {
-      content[noteIndex] += `\\nGST No: ${profile.gst_number}`;
-    } else {
-      content.push(`NOTE:GST No: ${profile.gst_number}`);
-    }
-  }
+export interface VCardOptions {
+  version?: VCardVersion; // Defaults to 3.0 (best importer coverage on iOS/Android/Outlook)
+  media?: VCardMedia;
+  includeLogo?: boolean; // Only used by generateVCardWithMedia
+}
+
+const TEL_TYPES: Record<PhoneType, string[]> = {
+  cell: ['cell', 'voice'],
+  work: ['work', 'voice'],
+  home: ['home', 'voice'],
+  fax: ['work', 'fax'],
+  whatsapp: ['cell', 'x-whatsapp'],
+};
+
+const EMAIL_TYPES: Record<EmailType, string[]> = {
+  work: ['work'],
+  home: ['home'],
+  other: [],
+};
 
-  // Helper to check if string is a valid URL
-  const isValidUrl = (string: string) => {
-    try { return Boolean(new URL(string)); } catch (e) { return false; }
-  };
+// Links typed without a scheme (www.example.com) still work on the page - give them https:// here
+const withScheme = (url: string) => (/^([a-z][a-z0-9+.-]*:\/\/|mailto:|tel:|sms:)/i.test(url) ? url : `https://${url}`);
+
+const urlProperty = (url: string, label: string): VCardProperty => ({
+  name: 'URL',
+  value: url,
+  types: [label],
+  escape: false,
+});
+
+const buildLinkProperties = (profile: Partial<Profile>): VCardProperty[] => {
+  const props: VCardProperty[] = [];
 
   // Add Custom Elements (Buttons & Socials)
   if (profile.custom_elements && Array.isArray(profile.custom_elements)) {
     profile.custom_elements.forEach((elem: CustomButtonElement) => {
       if (!elem.isActive || !elem.url) return;
 
-      let label = elem.label || 'Link';
-
       if (elem.type === 'social') {
-        // Format Label (e.g. "whatsapp" -> "WhatsApp")
-        const presetLabel = elem.subtype ? elem.subtype.charAt(0).toUpperCase() + elem.subtype.slice(1) : 'Social';
-
         if (elem.subtype === 'whatsapp') {
-          // Ensure it's a clickable URL for VCard
-          const cleanNum = elem.url.replace(/\D/g, '');
           // If user entered full URL, use it. If just number, format it.
+          const cleanNum = elem.url.replace(/\D/g, '');
           const finalUrl = elem.url.startsWith('http') ? elem.url : `https://wa.me/${cleanNum}`;
-          content.push(`URL;TYPE=WhatsApp:${finalUrl}`);
+          props.push(urlProperty(finalUrl, 'WhatsApp'));
         } else {
-          content.push(`URL;TYPE=${presetLabel}:${elem.url}`);
+          // Format Label (e.g. "instagram" -> "Instagram")
+          const presetLabel = elem.subtype ? elem.subtype.charAt(0).toUpperCase() + elem.subtype.slice(1) : 'Social';
+          props.push(urlProperty(elem.url, presetLabel));
         }
       } else {
-        // Standard Custom Links
-        // Remove special chars from label for VCard TYPE compatibility
-        const cleanLabel = label.replace(/[^a-zA-Z0-9]/g, '');
-        content.push(`URL;TYPE=${cleanLabel}:${elem.url}`);
+        // Remove special chars from label for TYPE compatibility
+        const cleanLabel = (elem.label || 'Link').replace(/[^a-zA-Z0-9]/g, '') || 'Link';
+        props.push(urlProperty(withScheme(elem.url.trim()), cleanLabel));
       }
     });
   } else if (profile.social_links) {
     // Fallback for Legacy Data
     const sl = profile.social_links;
-    if (sl.whatsapp) content.push(`URL;TYPE=WhatsApp:https://wa.me/${sl.whatsapp.replace(/\D/g, '')}`);
-    if (sl.linkedin) content.push(`URL;TYPE=LinkedIn:${sl.linkedin}`);
-    if (sl.twitter) content.push(`URL;TYPE=Twitter:${sl.twitter}`);
-    if (sl.instagram) content.push(`URL;TYPE=Instagram:${sl.instagram}`);
-    if (sl.facebook) content.push(`URL;TYPE=Facebook:${sl.facebook}`);
-    if (sl.youtube) content.push(`URL;TYPE=YouTube:${sl.youtube}`);
-    if (sl.maps) content.push(`URL;TYPE=Maps:${sl.maps}`);
-    if (sl.custom_url) content.push(`URL;TYPE=Custom:${sl.custom_url}`);
+    if (sl.whatsapp) props.push(urlProperty(`https://wa.me/${sl.whatsapp.replace(/\D/g, '')}`, 'WhatsApp'));
+    if (sl.linkedin) props.push(urlProperty(sl.linkedin, 'LinkedIn'));
+    if (sl.twitter) props.push(urlProperty(sl.twitter, 'Twitter'));
+    if (sl.instagram) props.push(urlProperty(sl.instagram, 'Instagram'));
+    if (sl.facebook) props.push(urlProperty(sl.facebook, 'Facebook'));
+    if (sl.youtube) props.push(urlProperty(sl.youtube, 'YouTube'));
+    if (sl.maps) props.push(urlProperty(sl.maps, 'Maps'));
+    if (sl.custom_url) props.push(urlProperty(sl.custom_url, 'Custom'));
+  }
+
+  return props;
+};
+
+// PHOTO/LOGO: inline base64 when we have it, otherwise fall back to a plain URI reference
+const imageProperty = (name: 'PHOTO' | 'LOGO', embedded: EmbeddedImage | null | undefined, fallbackUrl: string | null | undefined, version: VCardVersion): VCardProperty | null => {
+  if (embedded) {
+    return version === '3.0'
+      ? { name, value: embedded.base64, params: { ENCODING: 'b', TYPE: 'JPEG' }, escape: false }
+      : { name, value: `data:${embedded.mimeType};base64,${embedded.base64}`, escape: false };
   }
+  if (fallbackUrl && /^https?:\/\//.test(fallbackUrl)) {
+    return version === '3.0'
+      ? { name, value: fallbackUrl, params: { VALUE: 'uri' }, escape: false }
+      : { name, value: fallbackUrl, escape: false };
+  }
+  return null;
+};
+
+/**
+ * Finds the company logo placed in the card designer (front side first).
+ */
+export const getLogoUrl = (profile: Partial<Profile>): string | null => {
+  const design = profile.design_data;
+  if (!design) return null;
+  for (const side of [design.front, design.back]) {
+    const logo = side?.images?.find((img: any) => img.id === 'logo' && img.url);
+    if (logo) return logo.url;
+  }
+  return null;
+};
 
-  content.push('END:VCARD');
+/**
+ * Maps a profile to the list of vCard properties (without BEGIN/VERSION/END).
+ */
+export const buildVCardProperties = (profile: Partial<Profile>, version: VCardVersion = '3.0', media: VCardMedia = {}): VCardProperty[] => {
+  const fullName = (profile.full_name || '').trim();
+  const props: VCardProperty[] = [];
+
+  if (version === '4.0') props.push({ name: 'KIND', value: 'individual' });
+
+  // N components: family;given;additional;prefix;suffix
+  const name = getStructuredName(profile);
+  props.push({ name: 'FN', value: fullName });
+  props.push({ name: 'N', value: [name.family_name, name.given_name, name.middle_name, name.honorific, ''] });
+
+  if (profile.job_title) props.push({ name: 'TITLE', value: profile.job_title });
+  if (profile.company) props.push({ name: 'ORG', value: [profile.company] });
+  getPhones(profile).forEach(phone => {
+    // 'voice' is implied in 4.0
+    const types = TEL_TYPES[phone.type] || TEL_TYPES.cell;
+    props.push({ name: 'TEL', value: phone.number.trim(), types: version === '3.0' ? types : types.filter(t => t !== 'voice'), pref: phone.preferred });
+  });
+  getEmails(profile).forEach(email => {
+    const types = EMAIL_TYPES[email.type] || [];
+    props.push({ name: 'EMAIL', value: email.address.trim(), types: version === '3.0' ? ['internet', ...types] : types, pref: email.preferred });
+  });
+  if (profile.website) props.push({ name: 'URL', value: profile.website, escape: false });
+
+  // Append GST to Note if present
+  const noteParts = [profile.bio, profile.gst_number ? `GST No: ${profile.gst_number}` : null].filter(Boolean) as string[];
+  if (noteParts.length > 0) props.push({ name: 'NOTE', value: noteParts.join('\n') });
+
+  const address = getAddress(profile);
+  if (!isAddressEmpty(address)) {
+    // post-office box;extended;street;locality;region;postal code;country
+    props.push({
+      name: 'ADR',
+      value: ['', '', address.street, address.city, address.state, address.postal_code, address.country],
+      types: ['work', 'postal'],
+    });
+  }
+
+  props.push(...buildLinkProperties(profile));
+
+  const photo = imageProperty('PHOTO', media.photo, profile.profile_photo_url, version);
+  if (photo) props.push(photo);
+  if ('logo' in media) {
+    const logo = imageProperty('LOGO', media.logo, getLogoUrl(profile), version);
+    if (logo) props.push(logo);
+  }
+
+  return props;
+};
+
+export const generateVCardContent = (profile: Partial<Profile>, options: VCardOptions = {}): string => {
+  const version = options.version || '3.0';
+  return serializeVCard(buildVCardProperties(profile, version, options.media), version);
+};
+
+/**
+ * Same as generateVCardContent, but fetches, downscales and inlines the
+ * profile photo (and optionally the card logo) first. Never rejects - images
+ * that can't be loaded fall back to URI references or are left out.
+ */
+export const generateVCardWithMedia = async (profile: Partial<Profile>, options: VCardOptions = {}): Promise<string> => {
+  const logoUrl = options.includeLogo ? getLogoUrl(profile) : null;
+
+  const [photo, logo] = await Promise.all([
+    profile.profile_photo_url ? fetchEmbeddableImage(profile.profile_photo_url) : Promise.resolve(null),
+    logoUrl ? fetchEmbeddableImage(logoUrl, { maxDimension: 300, maxBytes: 40 * 1024 }) : Promise.resolve(null),
+  ]);
+
+  const media: VCardMedia = { photo };
+  if (options.includeLogo) media.logo = logo;
+
+  return generateVCardContent(profile, { ...options, media });
+};
 
-  return content.filter(line => line !== '').join('\n');
+/**
+ * Single multi-contact .vcf for a batch of exchange-contact leads.
+ */
+export const generateLeadsVCard = (leads: Lead[], version: VCardVersion = '3.0'): string => {
+  const cards = leads.map(lead => buildVCardProperties({
+    full_name: lead.name,
+    company: lead.company,
+    phone: lead.phone,
+    email: lead.email,
+    bio: lead.note,
+  }, version));
+  return serializeVCards(cards, version);
 };
@@ -0,0 +1,92 @@
+/**
+ * Image embedding for vCards
+ *
+ * Fetches an image, downscales it on a canvas and returns base64 JPEG data
+ * small enough for phone contact importers (most reject PHOTO over ~100 KB).
+ */
+
+export interface EmbeddedImage {
+  base64: string; // Raw base64, no data: prefix
+  mimeType: 'image/jpeg';
+}
+
+export interface EmbedOptions {
+  maxDimension?: number; // Longest side in px
+  maxBytes?: number; // Cap on decoded size
+  timeoutMs?: number;
+}
+
+const DEFAULTS: Required<EmbedOptions> = {
+  maxDimension: 400,
+  maxBytes: 60 * 1024,
+  timeoutMs: 5000,
+};
+
+// Cache by URL so repeated "Save Contact" taps don't refetch
+const cache = new Map<string, Promise<EmbeddedImage | null>>();
+
+const loadImage = (url: string, timeoutMs: number): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    const timer = setTimeout(() => reject(new Error('Image load timed out')), timeoutMs);
+    img.onload = () => { clearTimeout(timer); resolve(img); };
+    img.onerror = () => { clearTimeout(timer); reject(new Error(`Could not load image: ${url}`)); };
+    img.src = url;
+  });
+
+const base64Size = (base64: string) => Math.floor((base64.length * 3) / 4);
+
+const encodeImage = async (url: string, opts: Required<EmbedOptions>): Promise<EmbeddedImage | null> => {
+  const img = await loadImage(url, opts.timeoutMs);
+
+  let dimension = opts.maxDimension;
+  // Step down size and quality until under the cap
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const scale = Math.min(1, dimension / Math.max(img.naturalWidth, img.naturalHeight));
+    const width = Math.max(1, Math.round(img.naturalWidth * scale));
+    const height = Math.max(1, Math.round(img.naturalHeight * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    // JPEG has no alpha - flatten transparent logos onto white
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(img, 0, 0, width, height);
+
+    const quality = Math.max(0.5, 0.85 - attempt * 0.1);
+    const dataUrl = canvas.toDataURL('image/jpeg', quality); // Throws if the canvas is tainted (no CORS)
+    const base64 = dataUrl.split(',')[1] || '';
+
+    if (base64 && base64Size(base64) <= opts.maxBytes) {
+      return { base64, mimeType: 'image/jpeg' };
+    }
+    dimension = Math.round(dimension * 0.75);
+  }
+
+  console.warn('vCard image still above size cap after downscaling, skipping:', url);
+  return null;
+};
+
+/**
+ * Returns the image as embeddable base64 JPEG, or null if it can't be loaded,
+ * isn't CORS-readable or can't be brought under the size cap.
+ */
+export const fetchEmbeddableImage = (url: string, options: EmbedOptions = {}): Promise<EmbeddedImage | null> => {
+  const opts = { ...DEFAULTS, ...options };
+  const key = `${url}|${opts.maxDimension}|${opts.maxBytes}`;
+
+  if (!cache.has(key)) {
+    const pending = encodeImage(url, opts).catch(err => {
+      console.warn('Could not embed image in vCard:', err);
+      cache.delete(key); // Allow a retry on next tap
+      return null;
+    });
+    cache.set(key, pending);
+  }
+  return cache.get(key)!;
+};
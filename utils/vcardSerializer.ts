@@ -0,0 +1,111 @@
+/**
+ * Low-level vCard serializer (RFC 2426 / RFC 6350)
+ *
+ * Knows nothing about Profiles - it takes a list of properties and produces
+ * spec-compliant text: CRLF line endings, 75-octet line folding and value escaping.
+ */
+
+export type VCardVersion = '3.0' | '4.0';
+
+export interface VCardProperty {
+  name: string; // e.g. 'TEL', 'ADR'
+  value: string | string[]; // Arrays are structured values (N, ADR, ORG) joined with ';'
+  types?: string[]; // e.g. ['cell', 'voice'] - cased per version on output
+  params?: Record<string, string>; // Extra parameters, e.g. { VALUE: 'uri' }
+  pref?: boolean; // Preferred instance (TYPE=PREF in 3.0, PREF=1 in 4.0)
+  escape?: boolean; // Defaults to true. Set false for URI values
+}
+
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+/**
+ * Escapes a TEXT value component: backslash, newline, comma and semicolon.
+ */
+export const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r\n|\r|\n/g, '\\n')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;');
+
+/**
+ * Quotes a parameter value if it contains characters that are not allowed bare.
+ */
+const formatParamValue = (value: string): string => {
+  const clean = value.replace(/"/g, "'").replace(/\r\n|\r|\n/g, ' ');
+  return /[:;,]/.test(clean) ? `"${clean}"` : clean;
+};
+
+/**
+ * Folds a content line so that no physical line exceeds 75 octets.
+ * Continuation lines begin with a single space; multi-byte UTF-8
+ * characters are never split.
+ */
+export const foldLine = (line: string): string => {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const lines: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const charOctets = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + charOctets > limit) {
+      lines.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += charOctets;
+  }
+  lines.push(current);
+
+  return lines.join(`${CRLF} `);
+};
+
+const formatProperty = (prop: VCardProperty, version: VCardVersion): string => {
+  const shouldEscape = prop.escape !== false;
+  const components = Array.isArray(prop.value) ? prop.value : [prop.value];
+  const value = components.map(c => (shouldEscape ? escapeText(c || '') : c || '')).join(';');
+
+  const params: string[] = [];
+  const types = [...(prop.types || [])];
+
+  if (prop.pref && version === '3.0') types.push('pref');
+  if (types.length > 0) {
+    const cased = types.map(t => (version === '3.0' ? t.toUpperCase() : t.toLowerCase()));
+    params.push(`TYPE=${cased.map(formatParamValue).join(',')}`);
+  }
+  if (prop.pref && version === '4.0') params.push('PREF=1');
+
+  Object.entries(prop.params || {}).forEach(([key, val]) => {
+    params.push(`${key.toUpperCase()}=${formatParamValue(val)}`);
+  });
+
+  const head = [prop.name.toUpperCase(), ...params].join(';');
+  return foldLine(`${head}:${value}`);
+};
+
+/**
+ * Serializes a single vCard. BEGIN, VERSION and END are added automatically.
+ */
+export const serializeVCard = (properties: VCardProperty[], version: VCardVersion = '3.0'): string => {
+  const lines = [
+    'BEGIN:VCARD',
+    `VERSION:${version}`,
+    ...properties.map(p => formatProperty(p, version)),
+    'END:VCARD',
+  ];
+  return lines.join(CRLF) + CRLF;
+};
+
+/**
+ * Serializes several vCards into one multi-contact .vcf payload.
+ */
+export const serializeVCards = (cards: VCardProperty[][], version: VCardVersion = '3.0'): string =>
+  cards.map(props => serializeVCard(props, version)).join('');
@@ -0,0 +1,189 @@
+import { getSupabase } from '../lib/supabase';
+import { Profile, CustomButtonElement } from '../types';
+import { getBlockLabel, isContentBlock } from './blocks';
+
+/**
+ * Saved copies of a profile's content in profile_versions (see the SQL notes in
+ * lib/supabase.ts). Taken on every manual save and publish, as an occasional
+ * checkpoint while autosaving, and of the current state right before a restore.
+ *
+ * Identity, payment, the card design and access settings are not versioned -
+ * restoring old content must never change the URL, the PIN gate or the print.
+ */
+
+export type ProfileVersionKind = 'manual' | 'autosave' | 'restore' | 'publish';
+
+export type ProfileSnapshot = Partial<Profile>;
+
+export interface ProfileVersion {
+  id: string;
+  profile_id: string;
+  kind: ProfileVersionKind;
+  created_at: string;
+  data?: ProfileSnapshot; // Only loaded for the selected version
+}
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export const VERSION_KIND_LABELS: Record<ProfileVersionKind, string> = {
+  manual: 'Saved',
+  autosave: 'Autosave',
+  restore: 'Before restore',
+  publish: 'Published',
+};
+
+// How often autosave leaves a checkpoint behind
+export const AUTOSAVE_CHECKPOINT_MS = 10 * 60 * 1000;
+
+const UNVERSIONED_FIELDS: (keyof Profile)[] = [
+  'id', 'user_id', 'profile_slug', 'created_at', 'updated_at', 'storage_folder_path', 'visibility',
+  'subscription_end_date', 'upi_transaction_id', 'delivery_address_url', 'vcard_url',
+  'front_side', 'back_side', 'design_data', 'ai_generation_count', 'revision',
+];
+
+export const toSnapshot = (profile: Partial<Profile>): ProfileSnapshot => {
+  const snapshot: ProfileSnapshot = { ...profile };
+  UNVERSIONED_FIELDS.forEach(field => { delete snapshot[field]; });
+  return snapshot;
+};
+
+export const saveVersion = async (profileId: string, profile: Partial<Profile>, kind: ProfileVersionKind): Promise<void> => {
+  const { error } = await getSupabase()
+    .from('profile_versions')
+    .insert({ profile_id: profileId, kind, data: toSnapshot(profile) });
+  if (error) throw error;
+};
+
+export const listVersions = async (profileId: string): Promise<ProfileVersion[]> => {
+  const { data, error } = await getSupabase()
+    .from('profile_versions')
+    .select('id, profile_id, kind, created_at')
+    .eq('profile_id', profileId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as ProfileVersion[];
+};
+
+export const getVersionData = async (versionId: string): Promise<ProfileSnapshot> => {
+  const { data, error } = await getSupabase().from('profile_versions').select('data').eq('id', versionId).single();
+  if (error) throw error;
+  return (data?.data || {}) as ProfileSnapshot;
+};
+
+const FIELD_LABELS: Partial<Record<keyof Profile, string>> = {
+  honorific: 'Title',
+  given_name: 'First name',
+  middle_name: 'Middle name',
+  family_name: 'Surname',
+  job_title: 'Job title',
+  company: 'Company',
+  bio: 'Bio',
+  phones: 'Phone numbers',
+  emails: 'Emails',
+  website: 'Website',
+  address: 'Address',
+  profile_photo_url: 'Profile photo',
+  background_photo_url: 'Cover photo',
+  background_settings: 'Cover position',
+  theme_color: 'Theme colour',
+  card_color: 'Card colour',
+  card_text_color: 'Text colour',
+  background_color: 'Background colour',
+  font_family: 'Font',
+  font_size: 'Font size',
+  card_shape: 'Card shape',
+  custom_button_text: 'Main button text',
+  custom_button_url: 'Main button link',
+  custom_button_style: 'Main button style',
+  lead_capture: 'Exchange contact form',
+  custom_themes: 'Saved themes',
+  default_locale: 'Language',
+  translations: 'Translations',
+  gst_number: 'GST number',
+  profile_slug: 'Profile link',
+  visibility: 'Who can view',
+};
+
+// Fields that only mirror another one - their change is already shown there
+const DERIVED_FIELDS = new Set<string>(['full_name', 'phone', 'email', 'billing_address', 'social_links']);
+
+export const isDerivedField = (field: string) => DERIVED_FIELDS.has(field);
+
+const humanize = (field: string) => field.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase());
+
+export const getFieldLabel = (field: string) => FIELD_LABELS[field as keyof Profile] || humanize(field);
+
+// One-line, human readable value of a profile field ('' = not set)
+export const describeField = (field: string, value: any): string => {
+  if (value === null || value === undefined || value === '') return '';
+  if (field === 'custom_elements') return (value as CustomButtonElement[]).map(elementName).join(', ');
+  if (field === 'profile_photo_url' || field === 'background_photo_url') return 'Image';
+  if (field === 'phones') return (value as any[]).map(p => p.number).filter(Boolean).join(', ');
+  if (field === 'emails') return (value as any[]).map(e => e.address).filter(Boolean).join(', ');
+  if (field === 'address') return Object.values(value).filter(Boolean).join(', ');
+  if (field === 'translations') return Object.keys(value).join(', ');
+  if (field === 'custom_themes') return (value as any[]).map(t => t.name).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const elementName = (el: CustomButtonElement) => {
+  if (!isContentBlock(el)) return `${el.type === 'social' ? 'Social' : 'Button'} "${el.label}"`;
+  const text = el.data?.text || el.data?.query || '';
+  return `${getBlockLabel(el.type)}${text ? ` "${text.slice(0, 30)}"` : ''}`;
+};
+
+const describeElement = (el: CustomButtonElement) => {
+  if (!isContentBlock(el)) return [el.label, el.url].filter(Boolean).join(' - ');
+  const images = el.data?.images?.length || 0;
+  return el.data?.text || el.data?.query || el.data?.embedUrl || (images ? `${images} image${images > 1 ? 's' : ''}` : getBlockLabel(el.type));
+};
+
+// Buttons and blocks are matched by id, so a renamed button is one change rather than remove + add
+const diffElements = (before: CustomButtonElement[] = [], after: CustomButtonElement[] = []): FieldChange[] => {
+  const changes: FieldChange[] = [];
+  const afterById = new Map(after.map(el => [el.id, el]));
+  const beforeIds = new Set(before.map(el => el.id));
+
+  before.forEach(el => {
+    const next = afterById.get(el.id);
+    if (!next) {
+      changes.push({ field: 'custom_elements', label: elementName(el), before: describeElement(el), after: '' });
+    } else if (JSON.stringify(el) !== JSON.stringify(next)) {
+      const [was, now] = [describeElement(el), describeElement(next)];
+      changes.push({ field: 'custom_elements', label: elementName(next), before: was, after: now === was ? `${now} (settings changed)` : now });
+    }
+  });
+  after.forEach(el => {
+    if (!beforeIds.has(el.id)) changes.push({ field: 'custom_elements', label: elementName(el), before: '', after: describeElement(el) });
+  });
+
+  const order = (list: CustomButtonElement[]) => list.filter(el => beforeIds.has(el.id) && afterById.has(el.id)).map(el => el.id).join();
+  if (order(before) !== order(after)) {
+    changes.push({ field: 'custom_elements', label: 'Button order', before: 'Previous order', after: 'New order' });
+  }
+  return changes;
+};
+
+/**
+ * Field-by-field differences between two profile states, in a form the
+ * history panel can print. Empty strings mean "not set".
+ */
+export const diffSnapshots = (before: ProfileSnapshot, after: ProfileSnapshot): FieldChange[] => {
+  const prev = toSnapshot(before) as Record<string, any>;
+  const next = toSnapshot(after) as Record<string, any>;
+  const fields = Array.from(new Set([...Object.keys(prev), ...Object.keys(next)]));
+
+  return fields.flatMap(field => {
+    if (isDerivedField(field)) return [];
+    if (field === 'custom_elements') return diffElements(prev[field], next[field]);
+    const [was, now] = [describeField(field, prev[field]), describeField(field, next[field])];
+    if (JSON.stringify(prev[field] ?? null) === JSON.stringify(next[field] ?? null) || (was === '' && now === '')) return [];
+    return [{ field, label: getFieldLabel(field), before: was, after: now === was ? `${now} (changed)` : now }];
+  });
+};
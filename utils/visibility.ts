@@ -0,0 +1,74 @@
+import { getSupabase } from '../lib/supabase';
+import { Profile, ProfileVisibility } from '../types';
+
+/**
+ * Profile visibility. Row-level security hides PIN-protected and disabled
+ * profiles from plain selects, so the public page loads through the
+ * get_public_profile RPC, which only returns the row once the PIN matches
+ * (see the SQL notes in lib/supabase.ts).
+ */
+
+export const VISIBILITY_OPTIONS: { value: ProfileVisibility; label: string; description: string }[] = [
+  { value: 'public', label: 'Public', description: 'Anyone with the link, QR or NFC tap' },
+  { value: 'unlisted', label: 'Unlisted', description: 'Works for anyone with the link, hidden from search engines' },
+  { value: 'pin', label: 'PIN Protected', description: 'Visitors must enter your PIN first' },
+  { value: 'disabled', label: 'Disabled', description: 'Card shows as unavailable' },
+];
+
+export const PIN_PATTERN = /^\d{4,8}$/;
+
+export type ProfileAccessStatus = 'ok' | 'not_found' | 'disabled' | 'pin_required' | 'pin_invalid' | 'locked';
+
+export interface ProfileAccessResult {
+  status: ProfileAccessStatus;
+  profile?: Profile;
+}
+
+// Unlocked PINs are remembered for the browser session so a refresh doesn't ask again
+const pinKey = (slug: string) => `pin_${slug}`;
+
+export const getRememberedPin = (slug: string): string | null => {
+  try {
+    return sessionStorage.getItem(pinKey(slug));
+  } catch {
+    return null;
+  }
+};
+
+const rememberPin = (slug: string, pin: string | null) => {
+  try {
+    if (pin) sessionStorage.setItem(pinKey(slug), pin);
+    else sessionStorage.removeItem(pinKey(slug));
+  } catch {
+    // Private mode - the visitor simply re-enters the PIN
+  }
+};
+
+export const fetchProfileBySlug = async (slug: string, pin: string | null = null): Promise<ProfileAccessResult> => {
+  const { data, error } = await getSupabase().rpc('get_public_profile', { p_slug: slug, p_pin: pin });
+  if (error) throw error;
+
+  const result = (data || { status: 'not_found' }) as ProfileAccessResult;
+  // Remembered under the profile's current slug, so a retired slug's redirect doesn't ask again
+  if (pin) rememberPin(result.profile?.profile_slug || slug, result.status === 'ok' ? pin : null);
+  return result;
+};
+
+/**
+ * Sets (or with null, removes) the PIN for a profile the signed-in user owns.
+ * Throws an Error with a user-facing message.
+ */
+export const setProfilePin = async (profileId: string, pin: string | null): Promise<void> => {
+  if (pin !== null && !PIN_PATTERN.test(pin)) throw new Error('PIN must be 4 to 8 digits.');
+  const { error } = await getSupabase().rpc('set_profile_pin', { p_profile_id: profileId, p_pin: pin });
+  if (error) {
+    console.error('Set PIN error:', error);
+    throw new Error('Could not save the PIN. Please try again.');
+  }
+};
+
+export const hasProfilePin = async (profileId: string): Promise<boolean> => {
+  const { data, error } = await getSupabase().rpc('profile_has_pin', { p_profile_id: profileId });
+  if (error) throw error;
+  return Boolean(data);
+};